@@ -0,0 +1,101 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Request, Response, NextFunction } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { config } from "./config";
+
+declare module "express-session" {
+  interface SessionData {
+    userId: string;
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE = 1000 * 60 * 60 * 24 * 7; // 7 days
+
+const isProduction = config.isProduction;
+
+const MemoryStore = createMemoryStore(session);
+
+export const sessionMiddleware = session({
+  name: "moodtune.sid",
+  // Without a configured secret, sessions do not survive a restart
+  secret: config.sessionSecret ?? randomBytes(32).toString("hex"),
+  store: new MemoryStore({ checkPeriod: 1000 * 60 * 60 * 24 }),
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    httpOnly: true,
+    // The client is served from a different origin in production, so the
+    // cookie must be allowed cross-site (which in turn requires HTTPS).
+    secure: isProduction,
+    sameSite: isProduction ? "none" : "lax",
+    maxAge: SESSION_MAX_AGE
+  }
+});
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${derived.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "hex");
+  const derived = await scryptAsync(password, salt, expected.length);
+  return expected.length === derived.length && timingSafeEqual(expected, derived);
+}
+
+// Store the user on a fresh session id so a pre-login session cannot be fixated
+export function establishSession(req: Request, userId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      req.session.userId = userId;
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+export function destroySession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+// Operator endpoints take METRICS_TOKEN as a bearer token and are disabled
+// when it is not set
+export function requireOperator(req: Request, res: Response, next: NextFunction) {
+  const token = config.metricsToken;
+  if (!token) {
+    return res.status(404).json({ message: "Not found" });
+  }
+  if (req.get("Authorization") !== `Bearer ${token}`) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+// Only valid behind requireAuth
+export function getSessionUserId(req: Request): string {
+  const userId = req.session.userId;
+  if (!userId) {
+    throw Object.assign(new Error("Authentication required"), { status: 401 });
+  }
+  return userId;
+}
@@ -0,0 +1,297 @@
+import "dotenv/config";
+import { z } from "zod";
+
+// Every setting the server reads from the environment, validated once at
+// startup. Malformed values always stop the process; settings that only
+// production requires (database, session secret) stop it there.
+
+const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+
+// Values left behind by old .env templates instead of real credentials
+const PLACEHOLDERS = new Set([
+  "default_key",
+  "default_client_id",
+  "default_client_secret",
+  "your_openai_api_key",
+]);
+
+// Unset and empty variables both mean "use the default"
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === "" ? undefined : value), schema.optional());
+
+const secret = () => optional(z.string());
+
+const positiveInt = (defaultValue: number) =>
+  z.preprocess(value => (value === "" ? undefined : value), z.coerce.number().int().positive().default(defaultValue));
+
+const flag = (defaultValue: boolean) =>
+  z.preprocess(
+    value => (value === "" ? undefined : value),
+    z.enum(["true", "false", "1", "0"]).default(defaultValue ? "true" : "false")
+  ).transform(value => value === "true" || value === "1");
+
+const originList = optional(z.string()).transform(value =>
+  (value ?? "").split(",").map(origin => origin.trim()).filter(Boolean)
+);
+
+// RATE_LIMIT_<NAME>=<capacity>/<perMinute>
+const rateLimitOverride = z.string().regex(/^\d+\/\d+$/, "Use <capacity>/<perMinute>").transform(value => {
+  const [capacity, refillPerMinute] = value.split("/").map(Number);
+  return { capacity, refillPerMinute };
+}).refine(({ capacity, refillPerMinute }) => capacity > 0 && refillPerMinute > 0, "Both numbers must be positive");
+
+const envSchema = z.object({
+  NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
+  PORT: positiveInt(5000),
+
+  STORAGE: optional(z.enum(["mongo", "memory"])).default("mongo"),
+
+  MONGODB_URI: optional(z.string().regex(/^mongodb(\+srv)?:\/\//, "Must be a mongodb:// or mongodb+srv:// URI")),
+  DATABASE_URL: optional(z.string().regex(/^mongodb(\+srv)?:\/\//, "Must be a mongodb:// or mongodb+srv:// URI")),
+  // Apply pending schema migrations before serving; otherwise run npm run migrate
+  MIGRATE_ON_STARTUP: flag(true),
+  SESSION_SECRET: optional(z.string().min(32, "Must be at least 32 characters")),
+
+  CLIENT_URL: optional(z.string().url()),
+  CORS_ORIGINS: originList,
+  // Off by default: the session cookie is sent cross-site, so every allowed
+  // origin can act as the signed-in user
+  CORS_ALLOW_VERCEL_PREVIEWS: flag(false),
+  // The Vercel team slug at the end of this project's preview hosts
+  VERCEL_PREVIEW_SCOPE: optional(z.string().regex(/^[a-z0-9-]+$/, "Use the lowercase Vercel team slug")),
+
+  LLM_PROVIDER: optional(z.enum(["openai", "openai-compatible", "offline"])),
+  OPENAI_API_KEY: secret(),
+  LLM_MODEL: optional(z.string()).default("gpt-4o"),
+  LLM_BASE_URL: optional(z.string().url()),
+  LLM_API_KEY: secret(),
+  LLM_JSON_MODE: flag(false),
+
+  MUSIC_CATALOG_PROVIDER: optional(z.enum(["spotify", "local"])),
+  MUSIC_CATALOG_PATH: optional(z.string()),
+  SPOTIFY_CLIENT_ID: secret(),
+  SPOTIFY_CLIENT_SECRET: secret(),
+  // Names used by older deployments
+  SPOTIFY_CLIENT_ID_ENV_VAR: secret(),
+  SPOTIFY_CLIENT_SECRET_ENV_VAR: secret(),
+  SPOTIFY_TIMEOUT_MS: positiveInt(5_000),
+  SPOTIFY_MAX_RETRIES: z.preprocess(value => (value === "" ? undefined : value), z.coerce.number().int().min(0).default(3)),
+  SPOTIFY_CACHE_MAX_ENTRIES: positiveInt(500),
+
+  AI_DAILY_QUOTA: positiveInt(50),
+  IDEMPOTENCY_KEY_TTL_HOURS: positiveInt(24),
+  RATE_LIMIT_STORE: optional(z.enum(["memory", "mongo"])).default("memory"),
+
+  LOG_LEVEL: optional(z.string().refine(
+    value => value.split(",").every(part => (LOG_LEVELS as readonly string[]).includes(part.split("=").pop()!.trim())),
+    `Use a level (${LOG_LEVELS.join(", ")}), optionally followed by module=level pairs`
+  )).default("info"),
+  LOG_FORMAT: optional(z.enum(["json", "pretty"])).default("json"),
+
+  // Bearer token for /metrics and operator endpoints such as the catalog
+  // cache purge
+  METRICS_TOKEN: secret(),
+  // Set by the build, or by Render for each deploy
+  BUILD_COMMIT: optional(z.string()),
+  RENDER_GIT_COMMIT: optional(z.string()),
+
+  FEATURE_MOOD_FEED: flag(true),
+  FEATURE_JOB_WORKER: flag(true),
+  FEATURE_METRICS: flag(true),
+});
+
+type Env = z.infer<typeof envSchema>;
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+function buildConfig(env: Env) {
+  const isProduction = env.NODE_ENV === "production";
+  const problems: string[] = [];
+  // Problems that only stop production; elsewhere they are reported at startup
+  const warnings: string[] = [];
+  const requireInProduction = (problem: string) => (isProduction ? problems : warnings).push(problem);
+
+  // Placeholders are treated as unset, except in production where they are a mistake
+  const real = (name: keyof Env, value: string | undefined) => {
+    if (value && PLACEHOLDERS.has(value)) {
+      requireInProduction(`${name}: "${value}" is a placeholder, not a real value`);
+      return undefined;
+    }
+    return value;
+  };
+
+  const mongodbUri = env.MONGODB_URI ?? env.DATABASE_URL;
+  if (env.STORAGE === "mongo" && !mongodbUri) {
+    requireInProduction("MONGODB_URI: not set; database operations will fail");
+  }
+  if (!env.SESSION_SECRET) {
+    requireInProduction("SESSION_SECRET: not set; sessions will not survive a restart");
+  }
+
+  const openaiApiKey = real("OPENAI_API_KEY", env.OPENAI_API_KEY);
+  if (env.LLM_PROVIDER === "openai" && !openaiApiKey) {
+    problems.push("OPENAI_API_KEY: required when LLM_PROVIDER=openai");
+  }
+  if (env.LLM_PROVIDER === "openai-compatible" && !env.LLM_BASE_URL) {
+    problems.push("LLM_BASE_URL: required when LLM_PROVIDER=openai-compatible");
+  }
+
+  const spotifyClientId = real("SPOTIFY_CLIENT_ID", env.SPOTIFY_CLIENT_ID ?? env.SPOTIFY_CLIENT_ID_ENV_VAR);
+  const spotifyClientSecret = real("SPOTIFY_CLIENT_SECRET", env.SPOTIFY_CLIENT_SECRET ?? env.SPOTIFY_CLIENT_SECRET_ENV_VAR);
+  if (env.MUSIC_CATALOG_PROVIDER === "spotify" && !(spotifyClientId && spotifyClientSecret)) {
+    problems.push("SPOTIFY_CLIENT_ID, SPOTIFY_CLIENT_SECRET: required when MUSIC_CATALOG_PROVIDER=spotify");
+  }
+
+  if (env.STORAGE === "memory" && env.RATE_LIMIT_STORE === "mongo") {
+    problems.push("RATE_LIMIT_STORE: mongo requires STORAGE=mongo");
+  }
+
+  if (env.CORS_ALLOW_VERCEL_PREVIEWS && !env.VERCEL_PREVIEW_SCOPE) {
+    problems.push("VERCEL_PREVIEW_SCOPE: required when CORS_ALLOW_VERCEL_PREVIEWS=true");
+  }
+
+  const corsOrigins = env.CORS_ORIGINS.length > 0
+    ? env.CORS_ORIGINS
+    : isProduction ? ["https://mood-tune.vercel.app"] : ["http://localhost:5173"];
+
+  const rateLimitOverrides: Record<string, { capacity: number; refillPerMinute: number }> = {};
+  for (const [name, value] of Object.entries(process.env)) {
+    if (!name.startsWith("RATE_LIMIT_") || name === "RATE_LIMIT_STORE" || !value) continue;
+    const parsed = rateLimitOverride.safeParse(value);
+    if (parsed.success) {
+      rateLimitOverrides[name.slice("RATE_LIMIT_".length)] = parsed.data;
+    } else {
+      problems.push(`${name}: ${parsed.error.issues[0].message}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return {
+    env: env.NODE_ENV,
+    isProduction,
+    port: env.PORT,
+    storage: env.STORAGE,
+    mongodbUri: mongodbUri ?? null,
+    migrateOnStartup: env.MIGRATE_ON_STARTUP,
+    sessionSecret: env.SESSION_SECRET ?? null,
+    cors: {
+      origins: env.CLIENT_URL ? [env.CLIENT_URL, ...corsOrigins] : corsOrigins,
+      // Preview deployments get a new *.vercel.app host for every branch
+      allowVercelPreviews: env.CORS_ALLOW_VERCEL_PREVIEWS,
+      vercelPreviewScope: env.VERCEL_PREVIEW_SCOPE ?? null,
+    },
+    llm: {
+      provider: env.LLM_PROVIDER ?? null,
+      openaiApiKey: openaiApiKey ?? null,
+      model: env.LLM_MODEL,
+      baseUrl: env.LLM_BASE_URL ?? null,
+      apiKey: env.LLM_API_KEY ?? null,
+      jsonMode: env.LLM_JSON_MODE,
+    },
+    catalog: {
+      provider: env.MUSIC_CATALOG_PROVIDER ?? null,
+      localPath: env.MUSIC_CATALOG_PATH ?? null,
+      spotify: {
+        clientId: spotifyClientId ?? null,
+        clientSecret: spotifyClientSecret ?? null,
+        timeoutMs: env.SPOTIFY_TIMEOUT_MS,
+        maxRetries: env.SPOTIFY_MAX_RETRIES,
+        cacheMaxEntries: env.SPOTIFY_CACHE_MAX_ENTRIES,
+      },
+    },
+    limits: {
+      aiDailyQuota: env.AI_DAILY_QUOTA,
+      idempotencyKeyTtlHours: env.IDEMPOTENCY_KEY_TTL_HOURS,
+      rateLimitStore: env.RATE_LIMIT_STORE,
+      rateLimitOverrides,
+    },
+    logging: {
+      level: env.LOG_LEVEL,
+      format: env.LOG_FORMAT,
+    },
+    metricsToken: env.METRICS_TOKEN ?? null,
+    buildCommit: env.BUILD_COMMIT ?? env.RENDER_GIT_COMMIT ?? null,
+    features: {
+      moodFeed: env.FEATURE_MOOD_FEED,
+      jobWorker: env.FEATURE_JOB_WORKER,
+      metrics: env.FEATURE_METRICS,
+    },
+    warnings,
+  };
+}
+
+export type Config = ReturnType<typeof buildConfig>;
+
+export function loadConfig(source: NodeJS.ProcessEnv = process.env): Config {
+  const parsed = envSchema.safeParse(source);
+  if (!parsed.success) {
+    throw new ConfigError(parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`));
+  }
+  return buildConfig(parsed.data);
+}
+
+function loadConfigOrExit(): Config {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    // The logger depends on this module, so report straight to stderr
+    process.stderr.write(`${error.message}\n`);
+    process.exit(1);
+  }
+}
+
+export const config = loadConfigOrExit();
+
+const VERCEL_PROJECT = "mood-tune";
+
+// Vercel names this project's previews mood-tune-<hash>-<scope>.vercel.app and
+// mood-tune-git-<branch>-<scope>.vercel.app. Anyone can deploy to other
+// *.vercel.app hosts, so nothing broader may be trusted.
+function vercelPreviewPattern(scope: string) {
+  return new RegExp(`^https://${VERCEL_PROJECT}-(?:git-[a-z0-9-]+|[a-z0-9]+)-${scope}\\.vercel\\.app$`);
+}
+
+// Origins the browser client may call from, in the form the CORS middleware
+// takes
+export const allowedOrigins: Array<string | RegExp> = config.cors.allowVercelPreviews && config.cors.vercelPreviewScope
+  ? [...config.cors.origins, vercelPreviewPattern(config.cors.vercelPreviewScope)]
+  : config.cors.origins;
+
+export function isAllowedOrigin(origin: string) {
+  return allowedOrigins.some(allowed => (typeof allowed === "string" ? allowed === origin : allowed.test(origin)));
+}
+
+// The configuration with secrets reduced to whether they are set, for the
+// startup log
+export function configSummary() {
+  const { openaiApiKey, apiKey, ...llm } = config.llm;
+  const { clientId, clientSecret, ...spotify } = config.catalog.spotify;
+  return {
+    env: config.env,
+    port: config.port,
+    storage: config.storage,
+    mongodbUri: config.mongodbUri ? config.mongodbUri.replace(/\/\/[^@/]*@/, "//***@") : null,
+    migrateOnStartup: config.migrateOnStartup,
+    sessionSecretSet: Boolean(config.sessionSecret),
+    cors: config.cors,
+    llm: { ...llm, openaiApiKeySet: Boolean(openaiApiKey), apiKeySet: Boolean(apiKey) },
+    catalog: {
+      ...config.catalog,
+      spotify: { ...spotify, clientIdSet: Boolean(clientId), clientSecretSet: Boolean(clientSecret) },
+    },
+    limits: config.limits,
+    logging: config.logging,
+    metricsTokenSet: Boolean(config.metricsToken),
+    buildCommit: config.buildCommit,
+    features: config.features,
+  };
+}
@@ -1,13 +1,10 @@
 import mongoose from 'mongoose';
+import { config } from "./config";
+import { createLogger } from "./logger";
 
-const MONGODB_URI = process.env.MONGODB_URI || process.env.DATABASE_URL;
+const log = createLogger("db");
 
-if (!MONGODB_URI) {
-  console.warn(
-    "⚠️  MONGODB_URI not set. Database operations will fail. Please check your .env file."
-  );
-  console.warn("   Copy .env.example to .env and configure your MongoDB connection.");
-}
+const MONGODB_URI = config.mongodbUri;
 
 let isConnected = false;
 
@@ -23,15 +20,9 @@ export async function connectToDatabase() {
   try {
     await mongoose.connect(MONGODB_URI);
     isConnected = true;
-    console.log('✅ Connected to MongoDB');
+    log.info("Connected to MongoDB");
   } catch (error) {
-    console.error('❌ MongoDB connection error:', error);
+    log.error("MongoDB connection error", error);
     throw error;
   }
 }
-
-export function ensureDatabaseConnection() {
-  if (!isConnected) {
-    throw new Error("Database not connected. Please ensure MongoDB connection is established.");
-  }
-}
\ No newline at end of file
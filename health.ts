@@ -0,0 +1,95 @@
+import { readFileSync } from "fs";
+import { config } from "./config";
+import { storage } from "./storage";
+import { llmProvider } from "./services/openai";
+import { catalogProvider } from "./services/catalog";
+
+export type ComponentStatus = "ok" | "degraded" | "down";
+
+export interface ComponentHealth {
+  status: ComponentStatus;
+  latencyMs: number;
+  detail?: string;
+  error?: string;
+}
+
+const CHECK_TIMEOUT = 3_000;
+
+function readPackageVersion(): string {
+  try {
+    return JSON.parse(readFileSync(new URL("./package.json", import.meta.url), "utf8")).version;
+  } catch {
+    return "unknown";
+  }
+}
+
+export const buildInfo = {
+  version: readPackageVersion(),
+  commit: config.buildCommit,
+  node: process.version,
+};
+
+// Run one check with a deadline. A component that is required for serving
+// requests is "down" when it fails; an optional one is only "degraded".
+async function runCheck(
+  required: boolean,
+  check: () => Promise<string | void>
+): Promise<ComponentHealth> {
+  const start = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const detail = await Promise.race([
+      check(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT}ms`)), CHECK_TIMEOUT);
+      }),
+    ]);
+    return { status: "ok", latencyMs: Date.now() - start, ...(detail ? { detail } : {}) };
+  } catch (error) {
+    return {
+      status: required ? "down" : "degraded",
+      latencyMs: Date.now() - start,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function checkDatabase() {
+  await storage.checkHealth();
+  return storage.name;
+}
+
+async function checkLlm() {
+  await llmProvider.checkHealth?.();
+  return `${llmProvider.name} (${llmProvider.model})`;
+}
+
+async function checkCatalog() {
+  await catalogProvider.checkHealth?.();
+  return catalogProvider.name;
+}
+
+// Readiness: every component is checked in parallel. Without the database
+// nothing works, so only it can take the service out of rotation; a broken
+// LLM or catalog falls back and leaves the service degraded.
+export async function checkReadiness() {
+  const [database, llm, catalog] = await Promise.all([
+    runCheck(true, checkDatabase),
+    runCheck(false, checkLlm),
+    runCheck(false, checkCatalog),
+  ]);
+  const components = { database, llm, catalog };
+  const statuses = Object.values(components).map(component => component.status);
+  const status: ComponentStatus = statuses.includes("down")
+    ? "down"
+    : statuses.includes("degraded") ? "degraded" : "ok";
+
+  return {
+    status,
+    timestamp: new Date().toISOString(),
+    build: buildInfo,
+    components,
+  };
+}
@@ -0,0 +1,105 @@
+import { createHash } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { storage, DuplicateKeyError } from "./storage";
+import { config } from "./config";
+import { createLogger } from "./logger";
+
+const log = createLogger("idempotency");
+
+const HEADER = "Idempotency-Key";
+const MAX_KEY_LENGTH = 255;
+const RETENTION_MS = config.limits.idempotencyKeyTtlHours * 60 * 60 * 1000;
+// An in-progress key older than this belongs to a request that never finished
+const ABANDONED_AFTER_MS = 2 * 60 * 1000;
+
+function hashRequest(req: Request): string {
+  return createHash("sha256")
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${JSON.stringify(req.body ?? null)}`)
+    .digest("hex");
+}
+
+// Replays the stored response for a repeated Idempotency-Key. Keys are scoped
+// to the signed-in user, so this must run after requireAuth.
+export async function idempotency(req: Request, res: Response, next: NextFunction) {
+  const key = req.get(HEADER);
+  if (!key) {
+    return next();
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ message: `${HEADER} must be at most ${MAX_KEY_LENGTH} characters` });
+  }
+
+  const userId = req.session.userId!;
+  const requestHash = hashRequest(req);
+  const now = new Date();
+
+  try {
+    let record;
+    try {
+      record = await storage.createIdempotencyKey({
+        userId,
+        key,
+        requestHash,
+        expiresAt: new Date(now.getTime() + RETENTION_MS)
+      });
+    } catch (error) {
+      if (!(error instanceof DuplicateKeyError)) throw error;
+
+      const existing = await storage.getIdempotencyKey(userId, key);
+      const stale = existing && (
+        existing.expiresAt < now ||
+        (existing.status === "in_progress" && existing.createdAt < new Date(now.getTime() - ABANDONED_AFTER_MS))
+      );
+
+      if (existing && !stale) {
+        if (existing.requestHash !== requestHash) {
+          return res.status(422).json({ message: `${HEADER} was already used for a different request` });
+        }
+        if (existing.status === "in_progress") {
+          return res.status(409).json({ message: "A request with this Idempotency-Key is still being processed" });
+        }
+        res.set("Idempotent-Replayed", "true");
+        return res.status(existing.responseStatus ?? 200).json(existing.responseBody);
+      }
+
+      // Expired (not yet reaped by the TTL index) or abandoned: claim it afresh
+      record = existing ? await storage.replaceIdempotencyKey(existing, {
+        requestHash,
+        status: "in_progress",
+        responseStatus: null,
+        responseBody: null,
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + RETENTION_MS)
+      }) : null;
+      if (!record) {
+        return res.status(409).json({ message: "A request with this Idempotency-Key is still being processed" });
+      }
+    }
+
+    const recordId = record._id;
+    let responseBody: unknown = null;
+    const originalJson = res.json;
+    res.json = function (body, ...args) {
+      responseBody = body;
+      return originalJson.apply(res, [body, ...args]);
+    };
+
+    let settled = false;
+    const settle = (completed: boolean) => {
+      if (settled) return;
+      settled = true;
+      // Server errors and 429s (from limits that run after this, like the
+      // daily AI quota) are not stored so the client can retry with the same key
+      const update = completed && res.statusCode < 500 && res.statusCode !== 429
+        ? storage.updateIdempotencyKey(recordId, { status: "completed", responseStatus: res.statusCode, responseBody })
+        : storage.deleteIdempotencyKey(recordId);
+      update.catch((error) => log.error("Failed to store idempotent response", error));
+    };
+
+    res.on("finish", () => settle(true));
+    res.on("close", () => settle(false));
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,141 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { config } from "./config";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel | "silent", number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Values under these keys never reach the logs: mood text, AI output and credentials
+const REDACTED_KEYS = new Set([
+  "text", "content", "reflection", "affirmation",
+  "password", "passwordhash", "secret", "clientsecret", "apikey",
+  "token", "accesstoken", "access_token", "refreshtoken", "authorization", "cookie",
+]);
+const REDACTED = "[REDACTED]";
+
+// LOG_LEVEL=info sets the default; LOG_LEVEL=info,spotify=debug raises one module
+function parseLevels(spec: string | undefined) {
+  let defaultLevel: LogLevel | "silent" = "info";
+  const modules = new Map<string, LogLevel | "silent">();
+  for (const part of (spec || "").split(",").map(p => p.trim()).filter(Boolean)) {
+    const [name, level] = part.includes("=") ? part.split("=", 2) : [null, part];
+    if (!(level in LEVELS)) {
+      throw new Error(`Unknown log level "${level}" in LOG_LEVEL. Use debug, info, warn, error or silent.`);
+    }
+    if (name) modules.set(name, level as LogLevel);
+    else defaultLevel = level as LogLevel;
+  }
+  return { defaultLevel, modules };
+}
+
+const levels = parseLevels(config.logging.level);
+const pretty = config.logging.format === "pretty";
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+function serializeError(error: Error): LogFields {
+  const { name, message, stack, ...rest } = error as Error & LogFields;
+  return { name, message, stack, ...redact(rest) as LogFields };
+}
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) return serializeError(value);
+  if (value === null || typeof value !== "object") return value;
+  if (depth > 6) return "[Truncated]";
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  const source = typeof (value as { toJSON?: unknown }).toJSON === "function"
+    ? (value as { toJSON(): unknown }).toJSON()
+    : value;
+  if (source === null || typeof source !== "object") return source;
+
+  const result: LogFields = {};
+  for (const [key, field] of Object.entries(source)) {
+    result[key] = REDACTED_KEYS.has(key.toLowerCase()) ? REDACTED : redact(field, depth + 1);
+  }
+  return result;
+}
+
+function write(level: LogLevel, module: string, message: string, fields: LogFields) {
+  const requestId = currentRequestId();
+  const record = {
+    time: new Date().toISOString(),
+    level,
+    module,
+    ...(requestId ? { requestId } : {}),
+    msg: message,
+    ...redact(fields) as LogFields,
+  };
+
+  if (pretty) {
+    const { time, level: _, module: __, msg, ...rest } = record;
+    const extra = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : "";
+    process.stdout.write(`${time.slice(11, 19)} ${level.toUpperCase().padEnd(5)} [${module}] ${msg}${extra}\n`);
+  } else {
+    process.stdout.write(JSON.stringify(record) + "\n");
+  }
+}
+
+export interface Logger {
+  debug(message: string, context?: unknown): void;
+  info(message: string, context?: unknown): void;
+  warn(message: string, context?: unknown): void;
+  error(message: string, context?: unknown): void;
+}
+
+// Logger for one module. The optional context is either extra fields or an
+// error, which is logged under "err".
+export function createLogger(module: string): Logger {
+  const threshold = LEVELS[levels.modules.get(module) ?? levels.defaultLevel];
+
+  const log = (level: LogLevel) => (message: string, context?: unknown) => {
+    if (LEVELS[level] < threshold) return;
+    const fields = context === undefined
+      ? {}
+      : context instanceof Error || typeof context !== "object" || context === null
+        ? { err: context }
+        : context as LogFields;
+    write(level, module, message, fields);
+  };
+
+  return { debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
+
+const httpLog = createLogger("http");
+
+// Tag everything logged while handling a request with its ID, taken from the
+// incoming X-Request-Id when it looks sane, and log one line per API request.
+// Bodies are never logged.
+export function requestLogging(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.set(REQUEST_ID_HEADER, requestId);
+
+  const start = process.hrtime.bigint();
+  res.on("finish", () => {
+    if (!req.originalUrl.startsWith("/api")) return;
+    const level = res.statusCode >= 500 ? "error" : res.statusCode >= 400 ? "warn" : "info";
+    // Listeners run outside the request's async context, so pass the ID along
+    httpLog[level]("Request completed", {
+      requestId,
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      status: res.statusCode,
+      durationMs: Math.round(Number(process.hrtime.bigint() - start) / 1e5) / 10,
+      userId: req.session?.userId,
+    });
+  });
+
+  requestContext.run({ requestId }, next);
+}
@@ -0,0 +1,194 @@
+import type { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+
+type Labels = Record<string, string | number>;
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface Metric {
+  render(): string;
+}
+
+const registry: Metric[] = [];
+
+function escapeLabelValue(value: string | number): string {
+  return String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Series are keyed by their label set, serialized in label-name order
+function seriesKey(labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map(name => labels[name] ?? ""));
+}
+
+function labelsFromKey(labelNames: string[], key: string): Labels {
+  const values = JSON.parse(key) as string[];
+  return Object.fromEntries(labelNames.map((name, index) => [name, values[index]]));
+}
+
+function header(name: string, help: string, type: string): string {
+  return `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n`;
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, private help: string, private labelNames: string[] = []) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = seriesKey(this.labelNames, labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string {
+    let output = header(this.name, this.help, "counter");
+    for (const [key, value] of this.values) {
+      output += `${this.name}${formatLabels(labelsFromKey(this.labelNames, key))} ${value}\n`;
+    }
+    return output;
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    private help: string,
+    private labelNames: string[] = [],
+    private buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    registry.push(this);
+  }
+
+  observe(labels: Labels, seconds: number) {
+    const key = seriesKey(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (seconds <= bound) series!.counts[index]++;
+    });
+    series.sum += seconds;
+    series.count++;
+  }
+
+  // Returns a function that records the seconds elapsed since this call
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => void {
+    const start = process.hrtime.bigint();
+    return (extraLabels = {}) => {
+      this.observe({ ...labels, ...extraLabels }, Number(process.hrtime.bigint() - start) / 1e9);
+    };
+  }
+
+  render(): string {
+    let output = header(this.name, this.help, "histogram");
+    for (const [key, { counts, sum, count }] of this.series) {
+      const labels = labelsFromKey(this.labelNames, key);
+      this.buckets.forEach((bound, index) => {
+        output += `${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${counts[index]}\n`;
+      });
+      output += `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}\n`;
+      output += `${this.name}_sum${formatLabels(labels)} ${sum}\n`;
+      output += `${this.name}_count${formatLabels(labels)} ${count}\n`;
+    }
+    return output;
+  }
+}
+
+// A value read at scrape time
+export class Gauge implements Metric {
+  constructor(readonly name: string, private help: string, private collect: () => number) {
+    registry.push(this);
+  }
+
+  render(): string {
+    return header(this.name, this.help, "gauge") + `${this.name} ${this.collect()}\n`;
+  }
+}
+
+export function renderMetrics(): string {
+  return registry.map(metric => metric.render()).join("\n");
+}
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// Application metrics
+
+export const httpRequests = new Counter(
+  "moodtune_http_requests_total",
+  "HTTP requests by route and status",
+  ["method", "route", "status"]
+);
+
+export const httpRequestDuration = new Histogram(
+  "moodtune_http_request_duration_seconds",
+  "HTTP request latency by route and status",
+  ["method", "route", "status"]
+);
+
+export const llmCalls = new Counter(
+  "moodtune_llm_calls_total",
+  "LLM provider calls by operation and outcome (success or error)",
+  ["provider", "operation", "outcome"]
+);
+
+export const llmCallDuration = new Histogram(
+  "moodtune_llm_call_duration_seconds",
+  "LLM provider call latency",
+  ["provider", "operation", "outcome"],
+  [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30, 60]
+);
+
+export const moodAnalyses = new Counter(
+  "moodtune_mood_analyses_total",
+  "Mood analyses by result: model, or the canned fallback when the provider failed",
+  ["provider", "result"]
+);
+
+export const spotifyRecommendations = new Counter(
+  "moodtune_spotify_recommendations_total",
+  "Spotify recommendation lookups by the source that answered: official, search_fallback or none",
+  ["source"]
+);
+
+export const spotifyApiRequests = new Counter(
+  "moodtune_spotify_api_requests_total",
+  "Spotify Web API calls by endpoint and outcome (HTTP status, timeout or network_error)",
+  ["endpoint", "outcome"]
+);
+
+export const moodEntriesCreated = new Counter(
+  "moodtune_mood_entries_created_total",
+  "Mood entries created, by source (api or import)",
+  ["source"]
+);
+
+new Gauge(
+  "moodtune_mongodb_connection_state",
+  "Mongoose connection state: 0 disconnected, 1 connected, 2 connecting, 3 disconnecting",
+  () => mongoose.connection.readyState
+);
+
+new Gauge("moodtune_process_uptime_seconds", "Seconds since the process started", () => process.uptime());
+
+// Count and time every request under its route pattern rather than its URL,
+// so ids do not create a series each
+export function httpMetrics(req: Request, res: Response, next: NextFunction) {
+  const end = httpRequestDuration.startTimer({ method: req.method });
+  res.on("finish", () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+    const labels = { method: req.method, route, status: res.statusCode };
+    httpRequests.inc(labels);
+    end({ route, status: res.statusCode });
+  });
+  next();
+}
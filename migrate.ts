@@ -0,0 +1,74 @@
+import mongoose from "mongoose";
+import { config } from "./config";
+import { connectToDatabase } from "./db";
+import { MigrationError, getMigrationStatus, migrateUp, migrateDown } from "./migrations";
+
+// Apply or revert schema migrations against MONGODB_URI.
+//
+//   npm run migrate                  apply every pending migration
+//   npm run migrate -- up [--to ID]  apply pending migrations up to ID
+//   npm run migrate -- down          revert the newest applied migration
+//   npm run migrate -- down --to ID  revert every migration after ID
+//   npm run migrate -- down --all    revert every migration
+//   npm run migrate -- status        list migrations and when they ran
+
+const USAGE = "Usage: migrate [status | up [--to <id>] | down [--to <id> | --all]]";
+
+const print = (line: string) => process.stdout.write(`${line}\n`);
+
+function parseArgs(args: string[]) {
+  const [command = "up", ...rest] = args;
+  let target: string | null | undefined;
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === "--to" && rest[i + 1]) {
+      target = rest[++i];
+    } else if (rest[i] === "--all" && command === "down") {
+      target = null;
+    } else {
+      throw new MigrationError(USAGE);
+    }
+  }
+  if (!["status", "up", "down"].includes(command) || (command === "status" && target !== undefined)) {
+    throw new MigrationError(USAGE);
+  }
+  return { command, target };
+}
+
+async function run(args: string[]) {
+  const { command, target } = parseArgs(args);
+
+  if (config.storage !== "mongo") {
+    throw new MigrationError("Migrations only apply to MongoDB storage (STORAGE=mongo)");
+  }
+  await connectToDatabase();
+
+  switch (command) {
+    case "status":
+      for (const migration of await getMigrationStatus()) {
+        const state = migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : "pending";
+        print(`${migration.id}  ${state}  ${migration.description}`);
+      }
+      break;
+
+    case "up": {
+      const ran = await migrateUp(target ?? undefined);
+      print(ran.length > 0 ? `Applied ${ran.join(", ")}` : "Nothing to apply");
+      break;
+    }
+
+    case "down": {
+      const reverted = await migrateDown(target);
+      print(reverted.length > 0 ? `Reverted ${reverted.join(", ")}` : "Nothing to revert");
+      break;
+    }
+  }
+}
+
+try {
+  await run(process.argv.slice(2));
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exitCode = 1;
+} finally {
+  await mongoose.disconnect();
+}
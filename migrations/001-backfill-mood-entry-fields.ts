@@ -0,0 +1,92 @@
+import type { Migration } from "./index";
+
+// Collections stamped with schemaVersion 1. Names are spelled out rather than
+// read from the models so this migration keeps meaning what it meant when it
+// was written.
+const VERSIONED_COLLECTIONS = ["users", "moodentries", "aireflections", "spotifyrecommendations", "savedplaylists"];
+
+// Energy/valence quadrants, split at the middle of the 1-10 scales
+const MIDPOINT = 5.5;
+const QUADRANTS = [
+  { highEnergy: true, highValence: true, quickMood: "energized", emoji: "⚡" },
+  { highEnergy: false, highValence: true, quickMood: "calm", emoji: "😌" },
+  { highEnergy: true, highValence: false, quickMood: "tense", emoji: "😬" },
+  { highEnergy: false, highValence: false, quickMood: "down", emoji: "😔" },
+];
+
+const LEGACY_PROCESSING_ERROR = "Created before background processing; regenerate to analyze";
+
+// The quadrant value for each entry, as an aggregation expression
+function byQuadrant(field: "quickMood" | "emoji") {
+  return {
+    $switch: {
+      branches: QUADRANTS.map(quadrant => ({
+        case: {
+          $and: [
+            { [quadrant.highEnergy ? "$gte" : "$lt"]: ["$energy", MIDPOINT] },
+            { [quadrant.highValence ? "$gte" : "$lt"]: ["$valence", MIDPOINT] },
+          ],
+        },
+        then: quadrant[field],
+      })),
+      default: QUADRANTS[3][field],
+    },
+  };
+}
+
+// Entries written before emoji/quick mood were required, or before analysis
+// moved to background jobs, miss fields the API now always returns. Fill them
+// in from what the entry already has, then stamp every user-data document
+// with schema version 1. Entries without an owner predate accounts and are
+// left for a person to assign.
+export const backfillMoodEntryFields: Migration = {
+  id: "001-backfill-mood-entry-fields",
+  description: "Backfill emoji, quick mood and processing status on legacy mood entries; add schemaVersion",
+
+  async up(db) {
+    const moodEntries = db.collection("moodentries");
+
+    await moodEntries.updateMany({ quickMood: { $exists: false } }, [{ $set: { quickMood: byQuadrant("quickMood") } }]);
+    await moodEntries.updateMany({ emoji: { $exists: false } }, [{ $set: { emoji: byQuadrant("emoji") } }]);
+
+    // Legacy entries were analyzed inline at creation, so whatever reflection
+    // and recommendations they have tell how far that got
+    await moodEntries.aggregate([
+      { $match: { processingStatus: { $exists: false } } },
+      { $lookup: { from: "spotifyrecommendations", localField: "_id", foreignField: "moodEntryId", as: "recommendations", pipeline: [{ $limit: 1 }] } },
+      { $lookup: { from: "aireflections", localField: "_id", foreignField: "moodEntryId", as: "reflections", pipeline: [{ $limit: 1 }] } },
+      {
+        $project: {
+          processingStatus: {
+            $cond: [
+              { $gt: [{ $size: "$recommendations" }, 0] },
+              "recommended",
+              { $cond: [{ $gt: [{ $size: "$reflections" }, 0] }, "analyzed", "failed"] },
+            ],
+          },
+          processingError: {
+            $cond: [
+              { $or: [{ $gt: [{ $size: "$recommendations" }, 0] }, { $gt: [{ $size: "$reflections" }, 0] }] },
+              null,
+              LEGACY_PROCESSING_ERROR,
+            ],
+          },
+        },
+      },
+      { $merge: { into: "moodentries", on: "_id", whenMatched: "merge", whenNotMatched: "discard" } },
+    ]).toArray();
+    await moodEntries.updateMany({ processingError: { $exists: false } }, { $set: { processingError: null } });
+
+    for (const name of VERSIONED_COLLECTIONS) {
+      await db.collection(name).updateMany({ schemaVersion: { $exists: false } }, { $set: { schemaVersion: 1 } });
+    }
+  },
+
+  // Backfilled values stay: the previous schema accepts them, and they can no
+  // longer be told apart from values users entered
+  async down(db) {
+    for (const name of VERSIONED_COLLECTIONS) {
+      await db.collection(name).updateMany({ schemaVersion: 1 }, { $unset: { schemaVersion: "" } });
+    }
+  },
+};
@@ -0,0 +1,54 @@
+import type { Migration } from "./index";
+
+const ANALYSIS_FIELDS = [
+  "dominantEmotions",
+  "suggestedGenres",
+  "estimatedEnergy",
+  "estimatedValence",
+  "usedFallback",
+  "model",
+  "promptVersion",
+];
+
+// Reflections used to keep only their text. Give older ones the analysis
+// fields, empty or null since the analysis is gone. Suggested genres survive
+// on the recommend job the analysis queued, so take them from there.
+export const storeMoodAnalysis: Migration = {
+  id: "002-store-mood-analysis",
+  description: "Add the mood analysis fields to AI reflections",
+
+  async up(db) {
+    const reflections = db.collection("aireflections");
+
+    await reflections.aggregate([
+      { $match: { suggestedGenres: { $exists: false } } },
+      {
+        $lookup: {
+          from: "moodprocessingjobs",
+          let: { moodEntryId: "$moodEntryId" },
+          pipeline: [
+            { $match: { $expr: { $eq: ["$moodEntryId", "$$moodEntryId"] }, type: "recommend" } },
+            { $sort: { createdAt: -1 } },
+            { $limit: 1 },
+          ],
+          as: "jobs",
+        },
+      },
+      { $project: { suggestedGenres: { $ifNull: [{ $first: "$jobs.suggestedGenres" }, []] } } },
+      { $merge: { into: "aireflections", on: "_id", whenMatched: "merge", whenNotMatched: "discard" } },
+    ]).toArray();
+
+    await reflections.updateMany({ dominantEmotions: { $exists: false } }, { $set: { dominantEmotions: [] } });
+    for (const field of ["estimatedEnergy", "estimatedValence", "usedFallback", "model", "promptVersion"]) {
+      await reflections.updateMany({ [field]: { $exists: false } }, { $set: { [field]: null } });
+    }
+    await reflections.updateMany({ schemaVersion: { $lt: 2 } }, { $set: { schemaVersion: 2 } });
+  },
+
+  async down(db) {
+    await db.collection("aireflections").updateMany(
+      { schemaVersion: 2 },
+      { $unset: Object.fromEntries(ANALYSIS_FIELDS.map(field => [field, ""])), $set: { schemaVersion: 1 } }
+    );
+  },
+};
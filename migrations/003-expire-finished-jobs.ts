@@ -0,0 +1,23 @@
+import type { Migration } from "./index";
+
+// Same as FINISHED_JOB_RETENTION in services/mood-jobs.ts when this was written
+const RETENTION_MS = 7 * 24 * 60 * 60_000;
+
+// Finished jobs used to be kept forever. Give the ones already finished an
+// expiry, counted from when they last changed, so the TTL index removes them.
+export const expireFinishedJobs: Migration = {
+  id: "003-expire-finished-jobs",
+  description: "Expire completed and failed mood processing jobs",
+
+  async up(db) {
+    await db.collection("moodprocessingjobs").updateMany(
+      { status: { $in: ["completed", "failed"] }, expiresAt: null },
+      [{ $set: { expiresAt: { $add: [{ $ifNull: ["$updatedAt", "$$NOW"] }, RETENTION_MS] } } }]
+    );
+  },
+
+  // Jobs the TTL index already removed stay removed
+  async down(db) {
+    await db.collection("moodprocessingjobs").updateMany({}, { $unset: { expiresAt: "" } });
+  },
+};
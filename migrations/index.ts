@@ -0,0 +1,203 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import mongoose from "mongoose";
+import { createLogger } from "../logger";
+import { backfillMoodEntryFields } from "./001-backfill-mood-entry-fields";
+import { storeMoodAnalysis } from "./002-store-mood-analysis";
+import { expireFinishedJobs } from "./003-expire-finished-jobs";
+
+const log = createLogger("migrations");
+
+type Db = mongoose.mongo.Db;
+
+// One change to the stored documents. Both directions must be safe to run
+// again after a partial failure, since a failed step is not recorded.
+export interface Migration {
+  // Unique and sortable; migrations run in id order
+  id: string;
+  description: string;
+  up(db: Db): Promise<void>;
+  down(db: Db): Promise<void>;
+}
+
+// Every migration, oldest first. Append new ones; never edit or reorder one
+// that has shipped.
+export const migrations: Migration[] = [
+  backfillMoodEntryFields,
+  storeMoodAnalysis,
+  expireFinishedJobs,
+];
+
+for (let i = 1; i < migrations.length; i++) {
+  if (migrations[i - 1].id >= migrations[i].id) {
+    throw new Error(`Migration ${migrations[i].id} is out of order`);
+  }
+}
+
+interface AppliedMigration {
+  _id: string;
+  description: string;
+  appliedAt: Date;
+  durationMs: number;
+}
+
+interface MigrationLock {
+  _id: string;
+  holder: string;
+  lockedAt: Date;
+}
+
+const APPLIED_COLLECTION = "schema_migrations";
+const LOCK_COLLECTION = "schema_migration_locks";
+const LOCK_ID = "migrations";
+// A lock this old was left by a process that died mid-run
+const LOCK_TIMEOUT_MS = 10 * 60_000;
+const DUPLICATE_KEY_ERROR = 11000;
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+// Another process (usually another instance starting up) is migrating
+export class MigrationLockedError extends MigrationError {
+  constructor() {
+    super("Another process is running migrations");
+    this.name = "MigrationLockedError";
+  }
+}
+
+export interface MigrationStatus {
+  id: string;
+  description: string;
+  appliedAt: Date | null;
+}
+
+function database(): Db {
+  const db = mongoose.connection.db;
+  if (mongoose.connection.readyState !== 1 || !db) {
+    throw new MigrationError("Not connected to MongoDB");
+  }
+  return db;
+}
+
+const appliedCollection = (db: Db) => db.collection<AppliedMigration>(APPLIED_COLLECTION);
+
+// Run fn while holding the cluster-wide migration lock
+async function withLock<T>(db: Db, fn: () => Promise<T>): Promise<T> {
+  const locks = db.collection<MigrationLock>(LOCK_COLLECTION);
+  const holder = `${hostname()}:${process.pid}:${randomUUID()}`;
+  const now = new Date();
+
+  try {
+    // Takes a missing or stale lock; a live one fails the upsert on _id
+    await locks.updateOne(
+      { _id: LOCK_ID, lockedAt: { $lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) } },
+      { $set: { holder, lockedAt: now } },
+      { upsert: true }
+    );
+  } catch (error) {
+    if (error instanceof mongoose.mongo.MongoServerError && error.code === DUPLICATE_KEY_ERROR) {
+      throw new MigrationLockedError();
+    }
+    throw error;
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await locks.deleteOne({ _id: LOCK_ID, holder });
+  }
+}
+
+async function appliedMigrations(db: Db) {
+  const applied = await appliedCollection(db).find().toArray();
+  return new Map(applied.map(migration => [migration._id, migration]));
+}
+
+function findMigration(id: string) {
+  const migration = migrations.find(candidate => candidate.id === id);
+  if (!migration) {
+    throw new MigrationError(`Unknown migration ${id}`);
+  }
+  return migration;
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const applied = await appliedMigrations(database());
+  return migrations.map(migration => ({
+    id: migration.id,
+    description: migration.description,
+    appliedAt: applied.get(migration.id)?.appliedAt ?? null,
+  }));
+}
+
+// Apply pending migrations in order, up to and including target when given.
+// Stops at the first failure; the ones before it stay applied.
+export async function migrateUp(target?: string): Promise<string[]> {
+  const db = database();
+  const last = target ? migrations.indexOf(findMigration(target)) : migrations.length - 1;
+
+  return withLock(db, async () => {
+    const applied = await appliedMigrations(db);
+    const unknown = [...applied.keys()].filter(id => !migrations.some(migration => migration.id === id));
+    if (unknown.length > 0) {
+      log.warn("Database has migrations this version does not know about", { migrations: unknown });
+    }
+
+    const ran: string[] = [];
+    for (const migration of migrations.slice(0, last + 1)) {
+      if (applied.has(migration.id)) continue;
+
+      log.info("Applying migration", { migration: migration.id });
+      const start = Date.now();
+      try {
+        await migration.up(db);
+      } catch (error) {
+        throw new MigrationError(`Migration ${migration.id} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      await appliedCollection(db).insertOne({
+        _id: migration.id,
+        description: migration.description,
+        appliedAt: new Date(),
+        durationMs: Date.now() - start,
+      });
+      ran.push(migration.id);
+    }
+
+    if (ran.length > 0) {
+      log.info("Migrations applied", { migrations: ran });
+    }
+    return ran;
+  });
+}
+
+// Revert applied migrations newest first, down to but not including target.
+// Without a target only the newest one is reverted; null reverts them all.
+export async function migrateDown(target?: string | null): Promise<string[]> {
+  const db = database();
+  const keep = target ? migrations.indexOf(findMigration(target)) : -1;
+
+  return withLock(db, async () => {
+    const applied = await appliedMigrations(db);
+    let revert = migrations.filter((migration, index) => index > keep && applied.has(migration.id)).reverse();
+    if (target === undefined) {
+      revert = revert.slice(0, 1);
+    }
+
+    const reverted: string[] = [];
+    for (const migration of revert) {
+      log.info("Reverting migration", { migration: migration.id });
+      try {
+        await migration.down(db);
+      } catch (error) {
+        throw new MigrationError(`Reverting migration ${migration.id} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      await appliedCollection(db).deleteOne({ _id: migration.id });
+      reverted.push(migration.id);
+    }
+    return reverted;
+  });
+}
@@ -1,7 +1,52 @@
 import mongoose from 'mongoose';
 
+// Version of each collection's document shape. Bump it together with a
+// migration (see migrations/) that brings older documents up to date; new
+// documents get the current version. Jobs (once finished), idempotency keys,
+// rate limit buckets and quotas expire on their own and are not versioned.
+export const SCHEMA_VERSIONS = {
+  users: 1,
+  moodEntries: 1,
+  aiReflections: 2,
+  spotifyRecommendations: 1,
+  savedPlaylists: 1
+} as const;
+
+// User Schema
+const userSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true
+  },
+  passwordHash: {
+    type: String,
+    required: true
+  },
+  displayName: {
+    type: String,
+    default: null
+  },
+  schemaVersion: {
+    type: Number,
+    default: SCHEMA_VERSIONS.users
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
 // Mood Entry Schema
 const moodEntrySchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
   text: {
     type: String,
     required: true
@@ -26,14 +71,48 @@ const moodEntrySchema = new mongoose.Schema({
     min: 1,
     max: 10
   },
+  // Progress of the background analysis/recommendation jobs
+  processingStatus: {
+    type: String,
+    enum: ['pending', 'analyzed', 'recommended', 'failed'],
+    default: 'pending'
+  },
+  processingError: {
+    type: String,
+    default: null
+  },
+  // Bumped when processing starts over; jobs from earlier generations drop
+  // their results
+  processingGeneration: {
+    type: Number,
+    default: 0
+  },
+  schemaVersion: {
+    type: Number,
+    default: SCHEMA_VERSIONS.moodEntries
+  },
   createdAt: {
     type: Date,
     default: Date.now
   }
 });
 
+// Per-user timelines and analytics always filter by owner and date; _id
+// breaks ties for cursor pagination
+moodEntrySchema.index({ userId: 1, createdAt: -1, _id: -1 });
+moodEntrySchema.index({ userId: 1, quickMood: 1, createdAt: -1 });
+moodEntrySchema.index({ userId: 1, emoji: 1, createdAt: -1 });
+// Full-text search; the userId prefix keeps each search inside one journal
+moodEntrySchema.index({ userId: 1, text: 'text' }, { name: 'mood_entry_text_search' });
+
 // AI Reflection Schema
 const aiReflectionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
   moodEntryId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'MoodEntry',
@@ -43,14 +122,56 @@ const aiReflectionSchema = new mongoose.Schema({
     type: String,
     required: true
   },
+  // The rest of the analysis that produced the reflection
+  dominantEmotions: {
+    type: [String],
+    default: []
+  },
+  suggestedGenres: {
+    type: [String],
+    default: []
+  },
+  estimatedEnergy: {
+    type: Number,
+    default: null
+  },
+  estimatedValence: {
+    type: Number,
+    default: null
+  },
+  // Null on reflections stored before analyses were kept
+  usedFallback: {
+    type: Boolean,
+    default: null
+  },
+  model: {
+    type: String,
+    default: null
+  },
+  promptVersion: {
+    type: String,
+    default: null
+  },
+  schemaVersion: {
+    type: Number,
+    default: SCHEMA_VERSIONS.aiReflections
+  },
   createdAt: {
     type: Date,
     default: Date.now
   }
 });
 
+aiReflectionSchema.index({ userId: 1, content: 'text' }, { name: 'ai_reflection_text_search' });
+
 // Spotify Recommendation Schema
 const spotifyRecommendationSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
   moodEntryId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'MoodEntry',
@@ -84,14 +205,71 @@ const spotifyRecommendationSchema = new mongoose.Schema({
     type: Number,
     required: true
   },
+  schemaVersion: {
+    type: Number,
+    default: SCHEMA_VERSIONS.spotifyRecommendations
+  },
   createdAt: {
     type: Date,
     default: Date.now
   }
 });
 
+// Playlist Track Schema - a snapshot of the track taken when it was added, so
+// the playlist survives its source recommendation being regenerated or deleted
+const playlistTrackSchema = new mongoose.Schema({
+  spotifyTrackId: {
+    type: String,
+    required: true
+  },
+  trackName: {
+    type: String,
+    required: true
+  },
+  artistName: {
+    type: String,
+    required: true
+  },
+  albumImageUrl: {
+    type: String,
+    default: null
+  },
+  previewUrl: {
+    type: String,
+    default: null
+  },
+  energy: {
+    type: Number,
+    default: null
+  },
+  valence: {
+    type: Number,
+    default: null
+  },
+  source: {
+    type: String,
+    enum: ['recommendation', 'catalog'],
+    required: true
+  },
+  recommendationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SpotifyRecommendation',
+    default: null
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
 // Saved Playlist Schema
 const savedPlaylistSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
   name: {
     type: String,
     required: true
@@ -104,36 +282,248 @@ const savedPlaylistSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'MoodEntry'
   }],
+  // Ordered; array position is the play order
+  tracks: [playlistTrackSchema],
+  schemaVersion: {
+    type: Number,
+    default: SCHEMA_VERSIONS.savedPlaylists
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Mood Processing Job Schema - background work queued for a mood entry
+const moodProcessingJobSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  moodEntryId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'MoodEntry',
+    required: true,
+    index: true
+  },
+  type: {
+    type: String,
+    enum: ['analyze', 'recommend'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued'
+  },
+  // Genres suggested by the analysis, handed on to the recommend job
+  suggestedGenres: {
+    type: [String],
+    default: []
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3
+  },
+  // The entry's processingGeneration when the job was queued
+  generation: {
+    type: Number,
+    default: 0
+  },
+  runAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedAt: {
+    type: Date,
+    default: null
+  },
+  lastError: {
+    type: String,
+    default: null
+  },
+  // Set once the job completes or fails for good; unfinished jobs never expire
+  expiresAt: {
+    type: Date,
+    default: null
+  },
   createdAt: {
     type: Date,
     default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
   }
 });
 
+// Workers claim the oldest due job
+moodProcessingJobSchema.index({ status: 1, runAt: 1 });
+// One job of each type per round of processing, so a follow-up is queued at
+// most once. Jobs from before generations were recorded have none and are
+// left out.
+moodProcessingJobSchema.index(
+  { moodEntryId: 1, type: 1, generation: 1 },
+  { unique: true, partialFilterExpression: { generation: { $exists: true } } }
+);
+// Finished jobs are kept a while for the status endpoint, then removed
+moodProcessingJobSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Idempotency Key Schema - first response to a keyed request, replayed on retries
+const idempotencyKeySchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  requestHash: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['in_progress', 'completed'],
+    default: 'in_progress'
+  },
+  responseStatus: {
+    type: Number,
+    default: null
+  },
+  responseBody: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+idempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true });
+// MongoDB removes keys once their retention window has passed
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Rate Limit Bucket Schema - token buckets shared by every server instance
+const rateLimitBucketSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  tokens: {
+    type: Number,
+    required: true
+  },
+  // Outcome of the most recent take, read back in the same atomic update
+  lastAllowed: {
+    type: Boolean,
+    default: false
+  },
+  updatedAt: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+rateLimitBucketSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Usage Quota Schema - per-period call counters (e.g. AI calls per day)
+const usageQuotaSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  count: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+usageQuotaSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
 // Create and export models
+export const User = mongoose.model('User', userSchema);
 export const MoodEntry = mongoose.model('MoodEntry', moodEntrySchema);
 export const AiReflection = mongoose.model('AiReflection', aiReflectionSchema);
 export const SpotifyRecommendation = mongoose.model('SpotifyRecommendation', spotifyRecommendationSchema);
 export const SavedPlaylist = mongoose.model('SavedPlaylist', savedPlaylistSchema);
+export const MoodProcessingJob = mongoose.model('MoodProcessingJob', moodProcessingJobSchema);
+export const IdempotencyKey = mongoose.model('IdempotencyKey', idempotencyKeySchema);
+export const RateLimitBucket = mongoose.model('RateLimitBucket', rateLimitBucketSchema);
+export const UsageQuota = mongoose.model('UsageQuota', usageQuotaSchema);
 
 // TypeScript interfaces for better type safety
+export type MoodProcessingStatus = 'pending' | 'analyzed' | 'recommended' | 'failed';
+
+export interface IUser {
+  _id?: mongoose.Types.ObjectId;
+  email: string;
+  passwordHash: string;
+  displayName?: string | null;
+  schemaVersion?: number;
+  createdAt?: Date;
+}
+
 export interface IMoodEntry {
   _id?: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
   text: string;
+  emoji: string;
+  quickMood: string;
   energy: number;
   valence: number;
+  processingStatus?: MoodProcessingStatus;
+  processingError?: string | null;
+  processingGeneration?: number;
+  schemaVersion?: number;
   createdAt?: Date;
 }
 
 export interface IAiReflection {
   _id?: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
   moodEntryId: mongoose.Types.ObjectId;
   content: string;
+  dominantEmotions: string[];
+  suggestedGenres: string[];
+  estimatedEnergy: number | null;
+  estimatedValence: number | null;
+  usedFallback: boolean | null;
+  model: string | null;
+  promptVersion: string | null;
+  schemaVersion?: number;
   createdAt?: Date;
 }
 
 export interface ISpotifyRecommendation {
   _id?: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
   moodEntryId: mongoose.Types.ObjectId;
   spotifyTrackId: string;
   trackName: string;
@@ -142,13 +532,62 @@ export interface ISpotifyRecommendation {
   previewUrl?: string | null;
   energy: number;
   valence: number;
+  schemaVersion?: number;
   createdAt?: Date;
 }
 
+export interface IPlaylistTrack {
+  _id?: mongoose.Types.ObjectId;
+  spotifyTrackId: string;
+  trackName: string;
+  artistName: string;
+  albumImageUrl?: string | null;
+  previewUrl?: string | null;
+  energy?: number | null;
+  valence?: number | null;
+  source: 'recommendation' | 'catalog';
+  recommendationId?: mongoose.Types.ObjectId | null;
+  addedAt?: Date;
+}
+
 export interface ISavedPlaylist {
   _id?: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
   name: string;
   description?: string | null;
   moodEntryIds: mongoose.Types.ObjectId[];
+  tracks: IPlaylistTrack[];
+  schemaVersion?: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IMoodProcessingJob {
+  _id?: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  moodEntryId: mongoose.Types.ObjectId;
+  type: 'analyze' | 'recommend';
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  suggestedGenres: string[];
+  attempts: number;
+  maxAttempts: number;
+  generation?: number;
+  runAt: Date;
+  lockedAt?: Date | null;
+  lastError?: string | null;
+  expiresAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IIdempotencyKey {
+  _id?: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  key: string;
+  requestHash: string;
+  status: 'in_progress' | 'completed';
+  responseStatus?: number | null;
+  responseBody?: unknown;
   createdAt?: Date;
+  expiresAt: Date;
 }
@@ -0,0 +1,255 @@
+import type { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import { RateLimitBucket, UsageQuota } from "./models";
+import { config } from "./config";
+import { createLogger } from "./logger";
+
+const log = createLogger("rate-limit");
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+// Backing store for token buckets and period quotas
+export interface RateLimitStore {
+  take(key: string, capacity: number, refillPerSecond: number): Promise<TokenBucketResult>;
+  // Increment a counter that resets at expiresAt and return its new value
+  increment(key: string, expiresAt: Date): Promise<number>;
+  // Take back one increment, e.g. for a request that turned out not to count
+  decrement(key: string): Promise<void>;
+}
+
+function retryAfterMs(tokens: number, refillPerSecond: number): number {
+  return tokens >= 1 ? 0 : Math.ceil(((1 - tokens) / refillPerSecond) * 1000);
+}
+
+// How long an idle bucket is kept: long enough to refill completely
+function bucketTtlMs(capacity: number, refillPerSecond: number): number {
+  return Math.ceil((capacity / refillPerSecond) * 1000);
+}
+
+// Single-instance store
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number; expiresAt: number }>();
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+
+  constructor(sweepIntervalMs = 60_000) {
+    setInterval(() => this.sweep(), sweepIntervalMs).unref();
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.expiresAt <= now) this.buckets.delete(key);
+    }
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    }
+  }
+
+  async take(key: string, capacity: number, refillPerSecond: number): Promise<TokenBucketResult> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key);
+    const elapsed = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+    let tokens = Math.min(capacity, (bucket?.tokens ?? capacity) + elapsed * refillPerSecond);
+
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+
+    this.buckets.set(key, { tokens, updatedAt: now, expiresAt: now + bucketTtlMs(capacity, refillPerSecond) });
+    return { allowed, remaining: Math.floor(tokens), retryAfterMs: allowed ? 0 : retryAfterMs(tokens, refillPerSecond) };
+  }
+
+  async increment(key: string, expiresAt: Date): Promise<number> {
+    const now = Date.now();
+    const counter = this.counters.get(key);
+    const count = counter && counter.expiresAt > now ? counter.count + 1 : 1;
+    this.counters.set(key, { count, expiresAt: expiresAt.getTime() });
+    return count;
+  }
+
+  async decrement(key: string): Promise<void> {
+    const counter = this.counters.get(key);
+    if (counter && counter.count > 0) counter.count -= 1;
+  }
+}
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Shared store for multiple instances; each update is a single atomic document write
+export class MongoRateLimitStore implements RateLimitStore {
+  async take(key: string, capacity: number, refillPerSecond: number, retried = false): Promise<TokenBucketResult> {
+    const now = new Date();
+    const refilled = {
+      $min: [
+        capacity,
+        {
+          $add: [
+            { $ifNull: ["$tokens", capacity] },
+            { $multiply: [{ $divide: [{ $subtract: [now, { $ifNull: ["$updatedAt", now] }] }, 1000] }, refillPerSecond] }
+          ]
+        }
+      ]
+    };
+
+    try {
+      const bucket = await RateLimitBucket.findOneAndUpdate(
+        { key },
+        [
+          { $set: { tokens: refilled, updatedAt: now } },
+          { $set: { lastAllowed: { $gte: ["$tokens", 1] } } },
+          {
+            $set: {
+              tokens: { $cond: ["$lastAllowed", { $subtract: ["$tokens", 1] }, "$tokens"] },
+              expiresAt: new Date(now.getTime() + bucketTtlMs(capacity, refillPerSecond))
+            }
+          }
+        ],
+        { upsert: true, new: true, lean: true }
+      );
+
+      const tokens = bucket?.tokens ?? 0;
+      const allowed = Boolean(bucket?.lastAllowed);
+      return { allowed, remaining: Math.floor(tokens), retryAfterMs: allowed ? 0 : retryAfterMs(tokens, refillPerSecond) };
+    } catch (error) {
+      // Two instances upserting a new bucket at once: the loser retries against the winner's document
+      if (!retried && error instanceof mongoose.mongo.MongoServerError && error.code === DUPLICATE_KEY_ERROR) {
+        return this.take(key, capacity, refillPerSecond, true);
+      }
+      throw error;
+    }
+  }
+
+  async increment(key: string, expiresAt: Date): Promise<number> {
+    const counter = await UsageQuota.findOneAndUpdate(
+      { key },
+      { $inc: { count: 1 }, $setOnInsert: { expiresAt } },
+      { upsert: true, new: true }
+    );
+    return counter.count;
+  }
+
+  async decrement(key: string): Promise<void> {
+    await UsageQuota.updateOne({ key, count: { $gt: 0 } }, { $inc: { count: -1 } });
+  }
+}
+
+function createRateLimitStore(): RateLimitStore {
+  switch (config.limits.rateLimitStore) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "mongo":
+      return new MongoRateLimitStore();
+  }
+}
+
+export const rateLimitStore: RateLimitStore = createRateLimitStore();
+
+export interface RateLimitOptions {
+  // Identifies the limit in store keys and in RATE_LIMIT_<NAME> overrides
+  name: string;
+  // Burst size
+  capacity: number;
+  // Sustained rate
+  refillPerMinute: number;
+}
+
+// RATE_LIMIT_MOOD_ENTRIES=20/10 means a burst of 20 and 10 more per minute
+function withEnvOverride(options: RateLimitOptions): RateLimitOptions {
+  const override = config.limits.rateLimitOverrides[options.name.toUpperCase().replace(/[^A-Z0-9]/g, "_")];
+  return override ? { ...options, ...override } : options;
+}
+
+function sendTooManyRequests(res: Response, retryAfterMs: number, message: string) {
+  res.set("Retry-After", String(Math.max(1, Math.ceil(retryAfterMs / 1000))));
+  return res.status(429).json({ message });
+}
+
+// Token bucket per client IP and, when signed in, per session user
+export function rateLimit(options: RateLimitOptions) {
+  const { name, capacity, refillPerMinute } = withEnvOverride(options);
+  const refillPerSecond = refillPerMinute / 60;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const keys = [`${name}:ip:${req.ip}`];
+      if (req.session?.userId) {
+        keys.push(`${name}:user:${req.session.userId}`);
+      }
+
+      let remaining = capacity;
+      for (const key of keys) {
+        const result = await rateLimitStore.take(key, capacity, refillPerSecond);
+        if (!result.allowed) {
+          res.set("RateLimit-Limit", String(capacity));
+          res.set("RateLimit-Remaining", "0");
+          return sendTooManyRequests(res, result.retryAfterMs, "Too many requests, please slow down");
+        }
+        remaining = Math.min(remaining, result.remaining);
+      }
+
+      res.set("RateLimit-Limit", String(capacity));
+      res.set("RateLimit-Remaining", String(remaining));
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export interface DailyQuotaOptions {
+  name: string;
+  limit: number;
+  // Only count requests matching this predicate
+  when?: (req: Request) => boolean;
+}
+
+function nextUtcMidnight(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+// Per-user daily allowance that resets at midnight UTC. Must run after requireAuth.
+// Requests the handler rejects with a 4xx (invalid input, missing entry) are
+// refunded, since they never reach the AI.
+export function dailyQuota(options: DailyQuotaOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (options.when && !options.when(req)) {
+      return next();
+    }
+
+    try {
+      const now = new Date();
+      const resetAt = nextUtcMidnight(now);
+      const day = now.toISOString().slice(0, 10);
+      const key = `${options.name}:user:${req.session.userId}:${day}`;
+      const used = await rateLimitStore.increment(key, resetAt);
+
+      if (used > options.limit) {
+        return sendTooManyRequests(
+          res,
+          resetAt.getTime() - now.getTime(),
+          `Daily limit of ${options.limit} ${options.name} requests reached`
+        );
+      }
+
+      res.on("finish", () => {
+        if (res.statusCode >= 400 && res.statusCode < 500) {
+          rateLimitStore.decrement(key).catch((error) => {
+            log.warn("Failed to refund daily quota", { quota: options.name, err: error });
+          });
+        }
+      });
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export const aiDailyQuota = (when?: (req: Request) => boolean) => dailyQuota({
+  name: "ai",
+  limit: config.limits.aiDailyQuota,
+  when
+});
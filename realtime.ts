@@ -0,0 +1,123 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { sessionMiddleware } from "./auth";
+import { isAllowedOrigin } from "./config";
+import { createLogger } from "./logger";
+
+const log = createLogger("realtime");
+
+export const MOOD_FEED_PATH = "/ws";
+
+const HEARTBEAT_INTERVAL = 30_000;
+
+// Events pushed to the owner of a mood entry as it moves through the pipeline
+export type MoodFeedEvent =
+  | { type: "mood-entry.created"; moodEntry: Record<string, any> }
+  | { type: "mood-entry.updated"; moodEntry: Record<string, any> }
+  | { type: "mood-entry.deleted"; moodEntryId: string }
+  | { type: "mood-entry.status"; moodEntryId: string; processingStatus: string; processingError: string | null }
+  | { type: "mood-entry.reflection"; moodEntryId: string; aiReflection: Record<string, any> }
+  | { type: "mood-entry.recommendations"; moodEntryId: string; recommendations: Record<string, any>[] };
+
+interface FeedSocket extends WebSocket {
+  userId: string;
+  isAlive: boolean;
+}
+
+const wss = new WebSocketServer({ noServer: true });
+const socketsByUser = new Map<string, Set<FeedSocket>>();
+
+// Reuse the HTTP session so the socket belongs to the signed-in user
+function resolveSessionUser(req: IncomingMessage): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    sessionMiddleware(req as Request, {} as Response, () => {
+      resolve((req as Request).session?.userId);
+    });
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+function track(ws: FeedSocket) {
+  let sockets = socketsByUser.get(ws.userId);
+  if (!sockets) {
+    sockets = new Set();
+    socketsByUser.set(ws.userId, sockets);
+  }
+  sockets.add(ws);
+
+  ws.on("close", () => {
+    sockets!.delete(ws);
+    if (sockets!.size === 0) {
+      socketsByUser.delete(ws.userId);
+    }
+  });
+}
+
+export function attachMoodFeed(server: Server) {
+  server.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== MOOD_FEED_PATH) {
+      return rejectUpgrade(socket, 404, "Not Found");
+    }
+
+    // Browsers send the session cookie along from any site, so only let the
+    // client's own origins in. Clients outside a browser send no origin.
+    const origin = req.headers.origin;
+    if (origin && !isAllowedOrigin(origin)) {
+      return rejectUpgrade(socket, 403, "Forbidden");
+    }
+
+    const userId = await resolveSessionUser(req);
+    if (!userId) {
+      return rejectUpgrade(socket, 401, "Unauthorized");
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const feedSocket = Object.assign(ws, { userId, isAlive: true }) as FeedSocket;
+      feedSocket.on("pong", () => {
+        feedSocket.isAlive = true;
+      });
+      feedSocket.on("error", (error) => {
+        log.error("Mood feed socket error", error);
+      });
+      track(feedSocket);
+      feedSocket.send(JSON.stringify({ type: "ready" }));
+    });
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    for (const client of wss.clients) {
+      const ws = client as FeedSocket;
+      if (!ws.isAlive) {
+        ws.terminate();
+        continue;
+      }
+      ws.isAlive = false;
+      ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL);
+
+  server.on("close", () => {
+    clearInterval(heartbeat);
+    wss.close();
+  });
+}
+
+export function publishMoodEvent(userId: string, event: MoodFeedEvent) {
+  const sockets = socketsByUser.get(userId);
+  if (!sockets) return;
+
+  const payload = JSON.stringify(event);
+  for (const ws of sockets) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(payload);
+    }
+  }
+}
@@ -0,0 +1,772 @@
+import { Router, type Request, type Response } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  storage,
+  DuplicateKeyError,
+  PartialWriteError,
+  type UserRecord,
+  type MoodEntryRecord
+} from "./storage";
+import { generateDailyAffirmation } from "./services/openai";
+import { deleteMoodEntry } from "./services/mood-entries";
+import {
+  createQueuedMoodEntry,
+  enqueueMoodProcessing,
+  cancelMoodProcessing,
+  getMoodProcessingJobs
+} from "./services/mood-jobs";
+import { catalogProvider, CatalogUnavailableError } from "./services/catalog";
+import {
+  PlaylistError,
+  serializePlaylist,
+  createPlaylist,
+  getPlaylists,
+  getPlaylist,
+  updatePlaylist,
+  deletePlaylist,
+  addPlaylistTrack,
+  removePlaylistTrack,
+  reorderPlaylistTracks
+} from "./services/playlists";
+import {
+  EXPORT_CONTENT_TYPES,
+  renderPlaylist,
+  exportFilename,
+  type ExportPlaylist,
+  type PlaylistExportFormat
+} from "./services/playlist-export";
+import { exportJournal, exportMoodEntriesCsv, importJournal } from "./services/journal-archive";
+import { MoodQueryError, listMoodEntries } from "./services/mood-query";
+import { searchMoodEntries } from "./services/mood-search";
+import { getMoodTrends } from "./services/analytics";
+import {
+  insertMoodEntrySchema,
+  updateMoodEntrySchema,
+  insertSavedPlaylistSchema,
+  updateSavedPlaylistSchema,
+  addPlaylistTrackSchema,
+  reorderPlaylistTracksSchema,
+  catalogSearchQuerySchema,
+  playlistExportQuerySchema,
+  journalArchiveSchema,
+  moodEntryListQuerySchema,
+  recentMoodEntriesQuerySchema,
+  moodSearchQuerySchema,
+  signupSchema,
+  loginSchema,
+  moodTrendsQuerySchema
+} from "./schema";
+import {
+  hashPassword,
+  verifyPassword,
+  establishSession,
+  destroySession,
+  requireAuth,
+  requireOperator,
+  getSessionUserId
+} from "./auth";
+import { idempotency } from "./idempotency";
+import { rateLimit, aiDailyQuota } from "./rate-limit";
+import { publishMoodEvent } from "./realtime";
+import { createLogger } from "./logger";
+import { checkReadiness, buildInfo } from "./health";
+import { moodEntriesCreated } from "./metrics";
+
+const log = createLogger("routes");
+
+// Where the current API version is mounted. The same router also answers on
+// the unversioned /api paths that clients used before versioning.
+export const API_PATH = "/api/v1";
+export const LEGACY_API_PATH = "/api";
+
+// The whole JSON API, relative to the path it is mounted on. Mount one router
+// on several paths so they share rate limit buckets.
+export function createApiRouter(): Router {
+  const router = Router();
+
+  // Per-route limits; override with RATE_LIMIT_<NAME>=<capacity>/<perMinute>
+  const authRateLimit = rateLimit({ name: "auth", capacity: 10, refillPerMinute: 5 });
+  const moodEntriesRateLimit = rateLimit({ name: "mood-entries", capacity: 10, refillPerMinute: 5 });
+  const affirmationRateLimit = rateLimit({ name: "affirmation", capacity: 5, refillPerMinute: 2 });
+  const catalogCacheRateLimit = rateLimit({ name: "catalog-cache", capacity: 2, refillPerMinute: 1 });
+
+  const toPublicUser = (user: UserRecord) => ({
+    id: user._id.toString(),
+    email: user.email,
+    displayName: user.displayName,
+    createdAt: user.createdAt
+  });
+
+  // The music catalog is down; tell the client when to try again if we know
+  const sendCatalogUnavailable = (res: Response, error: CatalogUnavailableError) => {
+    if (error.retryAfterMs) {
+      res.set("Retry-After", String(Math.ceil(error.retryAfterMs / 1000)));
+    }
+    return res.status(error.status).json({ message: `The ${error.provider} music catalog is temporarily unavailable` });
+  };
+
+  // Entries as listed to the client, each with its reflection and analysis
+  const withReflections = async (userId: string, entries: MoodEntryRecord[]) => {
+    const reflections = await storage.findAiReflections(userId, entries.map(entry => entry._id));
+    const byEntry = new Map(reflections.map(reflection => [reflection.moodEntryId.toString(), reflection]));
+    return entries.map(entry => ({
+      ...entry,
+      id: entry._id.toString(),
+      aiReflection: byEntry.get(entry._id.toString()) ?? null
+    }));
+  };
+
+  // Render a playlist in the format named by ?format=, falling back to the Accept header
+  const sendPlaylistExport = (req: Request, res: Response, playlist: ExportPlaylist) => {
+    const { format: requested } = playlistExportQuerySchema.parse(req.query);
+    const negotiated = req.accepts(Object.values(EXPORT_CONTENT_TYPES));
+    const format = requested ?? (Object.keys(EXPORT_CONTENT_TYPES) as PlaylistExportFormat[])
+      .find((key) => EXPORT_CONTENT_TYPES[key] === negotiated);
+
+    if (!format) {
+      return res.status(406).json({ message: "Supported formats: m3u, xspf, csv" });
+    }
+
+    res
+      .type(`${EXPORT_CONTENT_TYPES[format]}; charset=utf-8`)
+      .attachment(exportFilename(playlist.title, format))
+      .send(renderPlaylist(playlist, format));
+  };
+
+  // Create an account and sign in
+  router.post("/auth/signup", authRateLimit, async (req, res) => {
+    try {
+      const { email, password, displayName } = signupSchema.parse(req.body);
+
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+
+      const user = await storage.createUser({
+        email,
+        passwordHash: await hashPassword(password),
+        displayName: displayName ?? null
+      });
+
+      await establishSession(req, user._id.toString());
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      // Lost a race with a concurrent signup for the same email
+      if (error instanceof DuplicateKeyError) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+      log.error("Failed to sign up", error);
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+
+  // Sign in with email and password
+  router.post("/auth/login", authRateLimit, async (req, res) => {
+    try {
+      const { email, password } = loginSchema.parse(req.body);
+
+      const user = await storage.getUserByEmail(email);
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return res.status(401).json({ message: "Invalid email or password" });
+      }
+
+      await establishSession(req, user._id.toString());
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      log.error("Failed to log in", error);
+      res.status(500).json({ message: "Failed to log in" });
+    }
+  });
+
+  // Sign out and drop the session
+  router.post("/auth/logout", async (req, res) => {
+    try {
+      await destroySession(req);
+      res.clearCookie("moodtune.sid");
+      res.status(204).end();
+    } catch (error) {
+      log.error("Failed to log out", error);
+      res.status(500).json({ message: "Failed to log out" });
+    }
+  });
+
+  // Get the signed-in user
+  router.get("/auth/me", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(getSessionUserId(req));
+      if (!user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      log.error("Failed to get current user", error);
+      res.status(500).json({ message: "Failed to retrieve current user" });
+    }
+  });
+  
+  // Create mood entry; AI analysis and recommendations run in the background
+  router.post("/mood-entries", requireAuth, moodEntriesRateLimit, idempotency, aiDailyQuota(), async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const validatedData = insertMoodEntrySchema.parse(req.body);
+      
+      // Create the entry with its AI reflection and recommendations queued
+      const { moodEntry } = await createQueuedMoodEntry(userId, validatedData);
+      moodEntriesCreated.inc({ source: "api" });
+      const moodEntryId = moodEntry._id.toString();
+      publishMoodEvent(userId, {
+        type: "mood-entry.created",
+        moodEntry: { ...moodEntry, id: moodEntryId }
+      });
+      
+      res.status(202).json({
+        moodEntry: {
+          ...moodEntry,
+          id: moodEntryId
+        },
+        statusUrl: `${req.baseUrl}/mood-entries/${moodEntryId}/status`,
+        steps: { moodEntry: "succeeded", processingJob: "succeeded" }
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      log.error("Failed to create mood entry", error);
+      res.status(500).json({ 
+        message: "Failed to create mood entry",
+        error: error instanceof Error ? error.message : "Unknown error",
+        // Which writes were kept, so the client knows whether to retry
+        ...(error instanceof PartialWriteError ? { steps: error.steps } : {})
+      });
+    }
+  });
+
+  // Page through mood entries, newest first unless ?sort=oldest
+  router.get("/mood-entries", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const query = moodEntryListQuerySchema.parse(req.query);
+      const { items, nextCursor } = await listMoodEntries(userId, query);
+      res.json({ items: await withReflections(userId, items), nextCursor });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof MoodQueryError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      log.error("Failed to list mood entries", error);
+      res.status(500).json({ message: "Failed to retrieve mood entries" });
+    }
+  });
+
+  // Search mood text and AI reflections
+  router.get("/mood-entries/search", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const query = moodSearchQuerySchema.parse(req.query);
+      const results = await searchMoodEntries(userId, query);
+      res.json({ items: results });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      log.error("Failed to search mood entries", error);
+      res.status(500).json({ message: "Failed to search mood entries" });
+    }
+  });
+
+  // Get recent mood entries
+  router.get("/mood-entries/recent", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const { limit } = recentMoodEntriesQuerySchema.parse(req.query);
+      const entries = await storage.listMoodEntries(userId, { sort: "newest", limit });
+      res.json(await withReflections(userId, entries));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      log.error("Failed to get recent mood entries", error);
+      res.status(500).json({ message: "Failed to retrieve recent mood entries" });
+    }
+  });
+
+  // Poll background processing of a mood entry
+  router.get("/mood-entries/:id/status", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const moodEntry = await storage.getMoodEntry(userId, req.params.id);
+      if (!moodEntry) {
+        return res.status(404).json({ message: "Mood entry not found" });
+      }
+
+      const [jobs, aiReflection, recommendations] = await Promise.all([
+        getMoodProcessingJobs(moodEntry),
+        storage.getAiReflection(userId, moodEntry._id),
+        storage.getRecommendations(userId, moodEntry._id),
+      ]);
+
+      res.json({
+        moodEntryId: moodEntry._id.toString(),
+        processingStatus: moodEntry.processingStatus,
+        processingError: moodEntry.processingError,
+        jobs,
+        aiReflection,
+        recommendations,
+      });
+    } catch (error) {
+      log.error("Failed to get mood entry status", error);
+      res.status(500).json({ message: "Failed to retrieve mood entry status" });
+    }
+  });
+
+  // Get a mood entry with its reflection and recommendations
+  router.get("/mood-entries/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const moodEntry = await storage.getMoodEntry(userId, req.params.id);
+      if (!moodEntry) {
+        return res.status(404).json({ message: "Mood entry not found" });
+      }
+
+      const [aiReflection, recommendations] = await Promise.all([
+        storage.getAiReflection(userId, moodEntry._id),
+        storage.getRecommendations(userId, moodEntry._id),
+      ]);
+
+      res.json({
+        moodEntry: { ...moodEntry, id: moodEntry._id.toString() },
+        aiReflection,
+        recommendations,
+      });
+    } catch (error) {
+      log.error("Failed to get mood entry", error);
+      res.status(500).json({ message: "Failed to retrieve mood entry" });
+    }
+  });
+
+  // Get the tracks recommended for a mood entry
+  router.get("/mood-entries/:id/recommendations", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const moodEntry = await storage.getMoodEntry(userId, req.params.id);
+      if (!moodEntry) {
+        return res.status(404).json({ message: "Mood entry not found" });
+      }
+
+      const recommendations = await storage.getRecommendations(userId, moodEntry._id);
+      res.json(recommendations);
+    } catch (error) {
+      log.error("Failed to get recommendations", error);
+      res.status(500).json({ message: "Failed to retrieve recommendations" });
+    }
+  });
+
+  // Update a mood entry, optionally regenerating its reflection and recommendations
+  router.patch("/mood-entries/:id", requireAuth, moodEntriesRateLimit, aiDailyQuota((req) => req.body?.regenerate === true), async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const { regenerate, ...updates } = updateMoodEntrySchema.parse(req.body);
+
+      let moodEntry = await storage.updateMoodEntry(userId, req.params.id, updates);
+      if (!moodEntry) {
+        return res.status(404).json({ message: "Mood entry not found" });
+      }
+
+      const moodEntryId = moodEntry._id.toString();
+      publishMoodEvent(userId, {
+        type: "mood-entry.updated",
+        moodEntry: { ...moodEntry, id: moodEntryId }
+      });
+
+      if (!regenerate) {
+        return res.json({ moodEntry: { ...moodEntry, id: moodEntryId } });
+      }
+
+      // Start over: a new generation makes jobs still running drop their
+      // results, then unfinished jobs and old results go and fresh processing
+      // is queued
+      moodEntry = await storage.updateMoodEntry(userId, moodEntry._id, {
+        processingStatus: "pending",
+        processingError: null,
+        processingGeneration: (moodEntry.processingGeneration ?? 0) + 1
+      });
+      if (!moodEntry) {
+        // Deleted while we were resetting it
+        return res.status(404).json({ message: "Mood entry not found" });
+      }
+      await cancelMoodProcessing(moodEntry._id);
+      await storage.clearMoodInsights(userId, moodEntry._id);
+      await enqueueMoodProcessing(moodEntry);
+
+      res.status(202).json({
+        moodEntry: { ...moodEntry, id: moodEntryId },
+        statusUrl: `${req.baseUrl}/mood-entries/${moodEntryId}/status`
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      log.error("Failed to update mood entry", error);
+      res.status(500).json({ message: "Failed to update mood entry" });
+    }
+  });
+
+  // Delete a mood entry together with its reflection, recommendations and playlist references
+  router.delete("/mood-entries/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const deleted = await deleteMoodEntry(userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Mood entry not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      log.error("Failed to delete mood entry", error);
+      res.status(500).json({ message: "Failed to delete mood entry" });
+    }
+  });
+
+  // Export the recommendations for a mood entry as M3U8, XSPF or CSV
+  router.get("/mood-entries/:id/recommendations/export", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const moodEntry = await storage.getMoodEntry(userId, req.params.id);
+      if (!moodEntry) {
+        return res.status(404).json({ message: "Mood entry not found" });
+      }
+
+      const recommendations = await storage.getRecommendations(userId, moodEntry._id);
+      sendPlaylistExport(req, res, {
+        title: `MoodTune ${moodEntry.quickMood} ${moodEntry.createdAt.toISOString().slice(0, 10)}`,
+        description: `${moodEntry.emoji} ${moodEntry.quickMood}`,
+        tracks: recommendations
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      log.error("Failed to export recommendations", error);
+      res.status(500).json({ message: "Failed to export recommendations" });
+    }
+  });
+
+  // Get daily affirmation
+  router.get("/affirmation", requireAuth, affirmationRateLimit, aiDailyQuota(), async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+
+      // Get recent mood entries for context
+      const recentMoods = await storage.listMoodEntries(userId, { sort: "newest", limit: 5 });
+      
+      const moodTexts = recentMoods.map(mood => mood.text);
+      const affirmation = await generateDailyAffirmation(moodTexts);
+      
+      res.json({ affirmation });
+    } catch (error) {
+      log.error("Failed to generate affirmation", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to generate affirmation" 
+      });
+    }
+  });
+
+  // Search the music catalog for tracks to add to playlists
+  router.get("/catalog/search", requireAuth, async (req, res) => {
+    try {
+      const { q, limit } = catalogSearchQuerySchema.parse(req.query);
+      const tracks = await catalogProvider.searchTracks(q, limit);
+      res.json(tracks);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof CatalogUnavailableError) {
+        return sendCatalogUnavailable(res, error);
+      }
+      log.error("Failed to search catalog", error);
+      res.status(500).json({ message: "Failed to search catalog" });
+    }
+  });
+
+  // Catalog response cache counters
+  router.get("/catalog/cache", requireAuth, (req, res) => {
+    res.json({
+      provider: catalogProvider.name,
+      caches: catalogProvider.cacheStats?.() ?? {}
+    });
+  });
+
+  // Drop cached catalog responses, optionally only those for one endpoint
+  // (e.g. ?prefix=/search). The cache is shared by every user, so only
+  // operators may purge it.
+  router.delete("/catalog/cache", requireOperator, catalogCacheRateLimit, (req, res) => {
+    const prefix = typeof req.query.prefix === "string" ? req.query.prefix : undefined;
+    const removed = catalogProvider.invalidateCache?.(prefix) ?? 0;
+    res.json({ removed });
+  });
+
+  // Create saved playlist
+  router.post("/playlists", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const validatedData = insertSavedPlaylistSchema.parse(req.body);
+      const playlist = await createPlaylist(userId, validatedData);
+      res.status(201).json(serializePlaylist(playlist));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof PlaylistError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof CatalogUnavailableError) {
+        return sendCatalogUnavailable(res, error);
+      }
+      log.error("Failed to create playlist", error);
+      res.status(500).json({ message: "Failed to create playlist" });
+    }
+  });
+
+  // Get all saved playlists
+  router.get("/playlists", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const playlists = await getPlaylists(userId);
+      res.json(playlists.map(serializePlaylist));
+    } catch (error) {
+      log.error("Failed to get playlists", error);
+      res.status(500).json({ message: "Failed to retrieve playlists" });
+    }
+  });
+
+  // Get a saved playlist with its tracks
+  router.get("/playlists/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const playlist = await getPlaylist(userId, req.params.id);
+      if (!playlist) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+      res.json(serializePlaylist(playlist));
+    } catch (error) {
+      log.error("Failed to get playlist", error);
+      res.status(500).json({ message: "Failed to retrieve playlist" });
+    }
+  });
+
+  // Export a playlist as M3U8, XSPF or CSV
+  router.get("/playlists/:id/export", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const playlist = await getPlaylist(userId, req.params.id);
+      if (!playlist) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+      sendPlaylistExport(req, res, {
+        title: playlist.name,
+        description: playlist.description,
+        tracks: playlist.tracks
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      log.error("Failed to export playlist", error);
+      res.status(500).json({ message: "Failed to export playlist" });
+    }
+  });
+
+  // Rename a playlist or change its description
+  router.patch("/playlists/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const updates = updateSavedPlaylistSchema.parse(req.body);
+      const playlist = await updatePlaylist(userId, req.params.id, updates);
+      if (!playlist) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+      res.json(serializePlaylist(playlist));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      log.error("Failed to update playlist", error);
+      res.status(500).json({ message: "Failed to update playlist" });
+    }
+  });
+
+  // Delete a playlist
+  router.delete("/playlists/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const deleted = await deletePlaylist(userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      log.error("Failed to delete playlist", error);
+      res.status(500).json({ message: "Failed to delete playlist" });
+    }
+  });
+
+  // Add a track to a playlist
+  router.post("/playlists/:id/tracks", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const { track, position } = addPlaylistTrackSchema.parse(req.body);
+      const playlist = await addPlaylistTrack(userId, req.params.id, track, position);
+      if (!playlist) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+      res.status(201).json(serializePlaylist(playlist));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof PlaylistError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof CatalogUnavailableError) {
+        return sendCatalogUnavailable(res, error);
+      }
+      log.error("Failed to add playlist track", error);
+      res.status(500).json({ message: "Failed to add track to playlist" });
+    }
+  });
+
+  // Reorder the tracks on a playlist
+  router.put("/playlists/:id/tracks/order", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const { trackIds } = reorderPlaylistTracksSchema.parse(req.body);
+      const playlist = await reorderPlaylistTracks(userId, req.params.id, trackIds);
+      if (!playlist) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+      res.json(serializePlaylist(playlist));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof PlaylistError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      log.error("Failed to reorder playlist tracks", error);
+      res.status(500).json({ message: "Failed to reorder playlist" });
+    }
+  });
+
+  // Remove a track from a playlist
+  router.delete("/playlists/:id/tracks/:trackId", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const playlist = await removePlaylistTrack(userId, req.params.id, req.params.trackId);
+      if (!playlist) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+      res.json(serializePlaylist(playlist));
+    } catch (error) {
+      if (error instanceof PlaylistError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      log.error("Failed to remove playlist track", error);
+      res.status(500).json({ message: "Failed to remove track from playlist" });
+    }
+  });
+
+  // Export the whole journal as a versioned JSON archive
+  router.get("/export", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const archive = await exportJournal(userId);
+      res
+        .attachment(`moodtune-journal-${new Date().toISOString().slice(0, 10)}.json`)
+        .json(archive);
+    } catch (error) {
+      log.error("Failed to export journal", error);
+      res.status(500).json({ message: "Failed to export journal" });
+    }
+  });
+
+  // Export mood entries (with their reflections) as CSV
+  router.get("/export/mood-entries.csv", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const csv = await exportMoodEntriesCsv(userId);
+      res
+        .type("text/csv; charset=utf-8")
+        .attachment(`moodtune-mood-entries-${new Date().toISOString().slice(0, 10)}.csv`)
+        .send(csv);
+    } catch (error) {
+      log.error("Failed to export mood entries", error);
+      res.status(500).json({ message: "Failed to export mood entries" });
+    }
+  });
+
+  // Restore a journal archive into the signed-in user's journal
+  router.post("/import", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const archive = journalArchiveSchema.parse(req.body);
+      const imported = await importJournal(userId, archive);
+      res.status(201).json({ imported });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      log.error("Failed to import journal", error);
+      res.status(500).json({ message: "Failed to import journal" });
+    }
+  });
+
+  // Get energy/valence trends over time
+  router.get("/analytics/mood-trends", requireAuth, async (req, res) => {
+    try {
+      const userId = getSessionUserId(req);
+      const query = moodTrendsQuerySchema.parse(req.query);
+      const trends = await getMoodTrends(userId, query);
+      res.json(trends);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      log.error("Failed to get mood trends", error);
+      res.status(500).json({ message: "Failed to retrieve mood trends" });
+    }
+  });
+
+  // Liveness: the process is up and serving HTTP. Checks nothing else, so a
+  // failing dependency never gets the process restarted.
+  router.get("/health/live", (req, res) => {
+    res.json({ status: "ok", uptime: process.uptime(), build: buildInfo });
+  });
+
+  // Readiness: 503 while the service cannot handle requests
+  router.get("/health/ready", async (req, res) => {
+    const readiness = await checkReadiness();
+    res.status(readiness.status === "down" ? 503 : 200).json(readiness);
+  });
+
+  // Health check endpoint
+  router.get("/health", (req, res) => {
+    res.json({ 
+      status: "OK", 
+      timestamp: new Date().toISOString(),
+      storage: storage.name,
+      database: storage.isConnected() ? "connected" : "disconnected",
+      catalogCache: catalogProvider.cacheStats?.() ?? null
+    });
+  });
+
+  return router;
+}
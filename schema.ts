@@ -9,20 +9,216 @@ export const insertMoodEntrySchema = z.object({
   valence: z.number().min(1, "Valence must be at least 1").max(10, "Valence must be at most 10"),
 });
 
+export const updateMoodEntrySchema = insertMoodEntrySchema
+  .partial()
+  .extend({
+    // Re-run the AI reflection and recommendations against the updated entry
+    regenerate: z.boolean().optional(),
+  })
+  .refine(
+    (data) => Object.keys(data).some((key) => key !== "regenerate") || data.regenerate,
+    "Provide at least one field to update or set regenerate"
+  );
+
+const objectIdSchema = (label: string) => z.string().regex(/^[0-9a-fA-F]{24}$/, `Invalid ${label}`);
+
+// A track to put on a playlist: one of the user's stored recommendations, or
+// any track id known to the music catalog
+export const playlistTrackRefSchema = z.union([
+  z.object({ recommendationId: objectIdSchema("recommendation ID") }).strict(),
+  z.object({ trackId: z.string().min(1, "Track ID is required") }).strict(),
+]);
+
 export const insertSavedPlaylistSchema = z.object({
   name: z.string().min(1, "Playlist name is required"),
   description: z.string().optional(),
-  moodEntryIds: z.array(z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid mood entry ID")),
+  moodEntryIds: z.array(objectIdSchema("mood entry ID")).default([]),
+  tracks: z.array(playlistTrackRefSchema).max(500).default([]),
+});
+
+export const updateSavedPlaylistSchema = z.object({
+  name: z.string().min(1, "Playlist name is required").optional(),
+  description: z.string().nullable().optional(),
+}).refine((data) => Object.keys(data).length > 0, "Provide a name or description to update");
+
+export const addPlaylistTrackSchema = z.object({
+  track: playlistTrackRefSchema,
+  // Zero-based insert position; appends when omitted
+  position: z.number().int().min(0).optional(),
+});
+
+export const reorderPlaylistTracksSchema = z.object({
+  trackIds: z.array(objectIdSchema("playlist track ID")),
+});
+
+// Accepts a single value or a comma separated list (?quickMood=happy,calm)
+const listParamSchema = z.string().trim().min(1)
+  .transform((value) => value.split(",").map((item) => item.trim()).filter(Boolean));
+
+const moodScaleParamSchema = z.coerce.number().min(1).max(10);
+
+// Filters shared by mood entry listing and search
+export const moodEntryFiltersSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  quickMood: listParamSchema.optional(),
+  emoji: listParamSchema.optional(),
+  minEnergy: moodScaleParamSchema.optional(),
+  maxEnergy: moodScaleParamSchema.optional(),
+  minValence: moodScaleParamSchema.optional(),
+  maxValence: moodScaleParamSchema.optional(),
+});
+
+export const moodEntryListQuerySchema = moodEntryFiltersSchema.extend({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  sort: z.enum(["newest", "oldest"]).default("newest"),
+});
+
+export const recentMoodEntriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+// MongoDB rejects a text search made only of -negated words and phrases
+const hasPositiveSearchTerm = (query: string) =>
+  Array.from(query.matchAll(/(-?)"([^"]+)"|(-?)(\S+)/g)).some((match) => !(match[1] || match[3]));
+
+export const moodSearchQuerySchema = moodEntryFiltersSchema.extend({
+  q: z.string().trim().min(1, "Search query is required").max(200)
+    .refine(hasPositiveSearchTerm, "Search query needs at least one term that is not negated"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const playlistExportQuerySchema = z.object({
+  format: z.enum(["m3u", "m3u8", "xspf", "csv"])
+    .transform((format) => (format === "m3u8" ? "m3u" : format))
+    .optional(),
+});
+
+export const catalogSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required"),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export const signupSchema = z.object({
+  email: z.string().trim().email("A valid email is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  displayName: z.string().trim().min(1).max(60).optional(),
+});
+
+export const loginSchema = z.object({
+  email: z.string().trim().email("A valid email is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const moodTrendsQuerySchema = z.object({
+  granularity: z.enum(["day", "week", "month"]).default("day"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  window: z.coerce.number().int().min(1).max(90).optional(),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+});
+
+// Journal archives (export/import). Ids are the exporting deployment's and are
+// remapped on import.
+export const JOURNAL_ARCHIVE_FORMAT = "moodtune-journal";
+export const JOURNAL_ARCHIVE_VERSION = 1;
+
+const archiveIdSchema = z.string().min(1);
+
+export const journalArchiveSchema = z.object({
+  format: z.literal(JOURNAL_ARCHIVE_FORMAT),
+  version: z.literal(JOURNAL_ARCHIVE_VERSION),
+  exportedAt: z.coerce.date(),
+  moodEntries: z.array(insertMoodEntrySchema.extend({
+    _id: archiveIdSchema,
+    processingStatus: z.enum(["pending", "analyzed", "recommended", "failed"]).default("recommended"),
+    processingError: z.string().nullable().optional(),
+    createdAt: z.coerce.date(),
+  })),
+  aiReflections: z.array(z.object({
+    _id: archiveIdSchema,
+    moodEntryId: archiveIdSchema,
+    content: z.string().min(1),
+    // Missing from archives exported before analyses were kept
+    dominantEmotions: z.array(z.string()).default([]),
+    suggestedGenres: z.array(z.string()).default([]),
+    estimatedEnergy: z.number().nullable().default(null),
+    estimatedValence: z.number().nullable().default(null),
+    usedFallback: z.boolean().nullable().default(null),
+    model: z.string().nullable().default(null),
+    promptVersion: z.string().nullable().default(null),
+    createdAt: z.coerce.date(),
+  })),
+  spotifyRecommendations: z.array(z.object({
+    _id: archiveIdSchema,
+    moodEntryId: archiveIdSchema,
+    spotifyTrackId: z.string().min(1),
+    trackName: z.string().min(1),
+    artistName: z.string().min(1),
+    albumImageUrl: z.string().nullable().optional(),
+    previewUrl: z.string().nullable().optional(),
+    energy: z.number(),
+    valence: z.number(),
+    createdAt: z.coerce.date(),
+  })),
+  savedPlaylists: z.array(z.object({
+    _id: archiveIdSchema,
+    name: z.string().min(1),
+    description: z.string().nullable().optional(),
+    moodEntryIds: z.array(archiveIdSchema).default([]),
+    tracks: z.array(z.object({
+      spotifyTrackId: z.string().min(1),
+      trackName: z.string().min(1),
+      artistName: z.string().min(1),
+      albumImageUrl: z.string().nullable().optional(),
+      previewUrl: z.string().nullable().optional(),
+      energy: z.number().nullable().optional(),
+      valence: z.number().nullable().optional(),
+      source: z.enum(["recommendation", "catalog"]),
+      recommendationId: archiveIdSchema.nullable().optional(),
+      addedAt: z.coerce.date(),
+    })).default([]),
+    createdAt: z.coerce.date(),
+    updatedAt: z.coerce.date().optional(),
+  })),
 });
 
 // TypeScript types for the API
 export type InsertMoodEntry = z.infer<typeof insertMoodEntrySchema>;
+export type UpdateMoodEntry = z.infer<typeof updateMoodEntrySchema>;
 export type InsertSavedPlaylist = z.infer<typeof insertSavedPlaylistSchema>;
+export type UpdateSavedPlaylist = z.infer<typeof updateSavedPlaylistSchema>;
+export type PlaylistTrackRef = z.infer<typeof playlistTrackRefSchema>;
+export type SignupInput = z.infer<typeof signupSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+export type JournalArchive = z.infer<typeof journalArchiveSchema>;
+export type MoodEntryFilters = z.infer<typeof moodEntryFiltersSchema>;
+export type MoodEntryListQuery = z.infer<typeof moodEntryListQuerySchema>;
+export type MoodSearchQuery = z.infer<typeof moodSearchQuerySchema>;
+export type MoodTrendsQuery = z.infer<typeof moodTrendsQuerySchema>;
 
 // API response types
+export interface User {
+  id: string;
+  email: string;
+  displayName?: string | null;
+  createdAt: Date;
+}
+
 export interface MoodEntry {
   _id: string;
   id: string; // Frontend compatibility
+  userId: string;
   text: string;
   emoji: string;
   quickMood: string;
@@ -33,13 +229,24 @@ export interface MoodEntry {
 
 export interface AiReflection {
   _id: string;
+  userId: string;
   moodEntryId: string;
   content: string;
+  dominantEmotions: string[];
+  suggestedGenres: string[];
+  // The mood as the AI read it from the text, on the same 1-10 scales
+  estimatedEnergy: number | null;
+  estimatedValence: number | null;
+  // Whether the canned fallback stood in for a failed analysis; null when unknown
+  usedFallback: boolean | null;
+  model: string | null;
+  promptVersion: string | null;
   createdAt: Date;
 }
 
 export interface SpotifyRecommendation {
   _id: string;
+  userId: string;
   moodEntryId: string;
   spotifyTrackId: string;
   trackName: string;
@@ -51,12 +258,31 @@ export interface SpotifyRecommendation {
   createdAt: Date;
 }
 
+export interface PlaylistTrack {
+  _id: string;
+  id: string;
+  spotifyTrackId: string;
+  trackName: string;
+  artistName: string;
+  albumImageUrl?: string | null;
+  previewUrl?: string | null;
+  energy?: number | null;
+  valence?: number | null;
+  source: "recommendation" | "catalog";
+  recommendationId?: string | null;
+  addedAt: Date;
+}
+
 export interface SavedPlaylist {
   _id: string;
+  id: string;
+  userId: string;
   name: string;
   description?: string | null;
   moodEntryIds: string[];
+  tracks: PlaylistTrack[];
   createdAt: Date;
+  updatedAt: Date;
 }
 
 // Combined interfaces for frontend
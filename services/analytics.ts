@@ -0,0 +1,61 @@
+import { storage } from "../storage";
+
+export type TrendGranularity = "day" | "week" | "month";
+
+export interface MoodTrendOptions {
+  granularity: TrendGranularity;
+  from?: Date;
+  to?: Date;
+  window?: number;
+  timezone?: string;
+}
+
+export interface MoodTrendPoint {
+  period: Date;
+  count: number;
+  avgEnergy: number;
+  avgValence: number;
+  movingAvgEnergy: number;
+  movingAvgValence: number;
+  energyVolatility: number;
+  valenceVolatility: number;
+}
+
+export interface MoodTrends {
+  granularity: TrendGranularity;
+  window: number;
+  timezone: string;
+  summary: {
+    count: number;
+    avgEnergy: number | null;
+    avgValence: number | null;
+    energyVolatility: number | null;
+    valenceVolatility: number | null;
+  };
+  series: MoodTrendPoint[];
+  quadrants: Record<MoodQuadrant, number>;
+  topQuickMoods: Array<{ value: string; count: number }>;
+  topEmojis: Array<{ value: string; count: number }>;
+}
+
+// Energy/valence are 1-10, so 5.5 splits each axis in half
+export type MoodQuadrant = "energized" | "calm" | "tense" | "down";
+export const AXIS_MIDPOINT = 5.5;
+
+const DEFAULT_WINDOWS: Record<TrendGranularity, number> = {
+  day: 7,
+  week: 4,
+  month: 3,
+};
+
+export const TOP_VALUES_LIMIT = 5;
+
+export function getMoodTrends(userId: string, options: MoodTrendOptions): Promise<MoodTrends> {
+  return storage.getMoodTrends(userId, {
+    granularity: options.granularity,
+    from: options.from,
+    to: options.to,
+    window: options.window ?? DEFAULT_WINDOWS[options.granularity],
+    timezone: options.timezone ?? "UTC",
+  });
+}
@@ -0,0 +1,97 @@
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  maxEntries: number;
+}
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+// In-process cache with a per-entry TTL that evicts the least recently used
+// entry once maxEntries is reached. Map iteration order doubles as recency order.
+export class TtlCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+  // Loads in flight, so concurrent misses for one key share a single request
+  private pending = new Map<string, Promise<V>>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private maxEntries: number, private defaultTtlMs: number) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: V, ttlMs = this.defaultTtlMs) {
+    this.entries.delete(key);
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value!;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  // Cached value for key, or the result of load stored under it. Failed loads
+  // are not cached.
+  async getOrLoad(key: string, load: () => Promise<V>, ttlMs = this.defaultTtlMs): Promise<V> {
+    const cached = this.get(key);
+    if (cached !== undefined) return cached;
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const loading = load()
+      .then(value => {
+        this.set(key, value, ttlMs);
+        return value;
+      })
+      .finally(() => this.pending.delete(key));
+    this.pending.set(key, loading);
+    return loading;
+  }
+
+  // Drop every entry, or only those whose key starts with prefix. Returns the
+  // number of entries removed.
+  invalidate(prefix?: string): number {
+    if (prefix === undefined) {
+      const removed = this.entries.size;
+      this.entries.clear();
+      return removed;
+    }
+
+    let removed = 0;
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  stats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { spotifyService } from "./spotify";
+import { LocalCatalogProvider } from "./local-catalog";
+import type { CacheStats } from "./cache";
+import { config } from "../config";
+import { createLogger } from "../logger";
+
+const log = createLogger("catalog");
+
+// Tracks use Spotify's shape so every provider can feed SpotifyRecommendation
+export interface CatalogTrack {
+  id: string;
+  name: string;
+  artists: Array<{ name: string }>;
+  album: {
+    images: Array<{ url: string; height: number; width: number }>;
+  };
+  preview_url: string | null;
+  duration_ms: number;
+}
+
+export interface AudioFeatures {
+  energy: number;
+  valence: number;
+  danceability: number;
+  acousticness: number;
+  instrumentalness: number;
+  speechiness: number;
+}
+
+// The catalog could not be reached or keeps failing. Providers return an
+// empty list when a request succeeds with no results, and throw this instead
+// when they cannot answer at all.
+export class CatalogUnavailableError extends Error {
+  readonly status = 503;
+
+  constructor(public provider: string, message: string, public retryAfterMs: number | null = null) {
+    super(message);
+    this.name = "CatalogUnavailableError";
+  }
+}
+
+// A source of tracks. Energy and valence are on the 1-10 scale used by mood
+// entries; audio features come back on Spotify's 0-1 scale, in the order of
+// the requested ids, with null for unknown tracks (getTracks works the same way).
+// Methods throw CatalogUnavailableError when the catalog cannot be reached.
+export interface MusicCatalogProvider {
+  readonly name: string;
+  getRecommendations(energy: number, valence: number, genres?: string[]): Promise<CatalogTrack[]>;
+  getAudioFeatures(trackIds: string[]): Promise<Array<AudioFeatures | null>>;
+  getTracks(trackIds: string[]): Promise<Array<CatalogTrack | null>>;
+  searchTracks(query: string, limit?: number): Promise<CatalogTrack[]>;
+  getAvailableGenres(): Promise<string[]>;
+  // Providers backed by a remote API may cache its responses
+  cacheStats?(): Record<string, CacheStats>;
+  invalidateCache?(prefix?: string): number;
+  // Throws when the provider is misconfigured or cannot authenticate. Used by
+  // the readiness check.
+  checkHealth?(): Promise<void>;
+}
+
+export type CatalogProviderName = "spotify" | "local";
+
+export function createCatalogProvider(): MusicCatalogProvider {
+  const requested = config.catalog.provider;
+  const hasSpotifyCredentials = Boolean(config.catalog.spotify.clientId && config.catalog.spotify.clientSecret);
+
+  switch (requested ?? (hasSpotifyCredentials ? "spotify" : "local")) {
+    case "spotify":
+      return spotifyService;
+
+    case "local":
+      if (!requested) {
+        log.warn("Spotify credentials not set. Using the local music catalog.");
+      }
+      return LocalCatalogProvider.fromPath(config.catalog.localPath ?? undefined);
+  }
+}
+
+export const catalogProvider: MusicCatalogProvider = createCatalogProvider();
+
+log.info("Using music catalog", { provider: catalogProvider.name });
@@ -0,0 +1,67 @@
+import { createLogger } from "../logger";
+
+const log = createLogger("circuit-breaker");
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial request is let through
+  resetTimeoutMs: number;
+}
+
+// Stops calling a failing dependency for a while. After resetTimeoutMs one
+// trial request is allowed: success closes the circuit, failure reopens it.
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(readonly name: string, private options: CircuitBreakerOptions) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return Date.now() - this.openedAt >= this.options.resetTimeoutMs ? "half-open" : "open";
+  }
+
+  // Time until a trial request is allowed, 0 when requests may go through
+  get retryAfterMs(): number {
+    if (this.openedAt === null) return 0;
+    return Math.max(0, this.openedAt + this.options.resetTimeoutMs - Date.now());
+  }
+
+  // Whether a request may be made now. In half-open state only the first
+  // caller gets through until it reports back.
+  tryAcquire(): boolean {
+    switch (this.state) {
+      case "closed":
+        return true;
+      case "open":
+        return false;
+      case "half-open":
+        if (this.trialInFlight) return false;
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess() {
+    if (this.openedAt !== null) {
+      log.info("Circuit closed", { circuit: this.name });
+    }
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    const trialFailed = this.trialInFlight;
+    this.trialInFlight = false;
+    if (trialFailed || (this.openedAt === null && this.failures >= this.options.failureThreshold)) {
+      this.openedAt = Date.now();
+      log.warn("Circuit opened", { circuit: this.name, failures: this.failures });
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import mongoose from "mongoose";
+import { storage } from "../storage";
+import {
+  JOURNAL_ARCHIVE_FORMAT,
+  JOURNAL_ARCHIVE_VERSION,
+  type JournalArchive
+} from "../schema";
+import { toCsv } from "./csv";
+import { moodEntriesCreated } from "../metrics";
+
+const { ObjectId } = mongoose.Types;
+
+// Imports never queue processing, which would bypass the daily quota; the user
+// regenerates entries one at a time instead
+const UNPROCESSED_IMPORT_ERROR = "Imported before processing finished; regenerate to analyze";
+// Entries exported part way through processing. "analyzed" ones were still
+// waiting for recommendations, and nothing would ever fetch them.
+const UNFINISHED_STATUSES = new Set(["pending", "analyzed"]);
+
+// Archive documents keep their ids but drop ownership
+const withoutOwner = <T extends { userId: unknown }>({ userId: _, ...doc }: T) => doc;
+
+const stringifyIds = <T>(doc: T): T => JSON.parse(JSON.stringify(doc));
+
+export async function exportJournal(userId: string) {
+  const journal = await storage.getJournal(userId);
+
+  return stringifyIds({
+    format: JOURNAL_ARCHIVE_FORMAT,
+    version: JOURNAL_ARCHIVE_VERSION,
+    exportedAt: new Date(),
+    moodEntries: journal.moodEntries.map(withoutOwner),
+    aiReflections: journal.aiReflections.map(withoutOwner),
+    spotifyRecommendations: journal.spotifyRecommendations.map(withoutOwner),
+    savedPlaylists: journal.savedPlaylists.map(withoutOwner),
+  });
+}
+
+export async function exportMoodEntriesCsv(userId: string): Promise<string> {
+  const { moodEntries, aiReflections } = await storage.getJournal(userId);
+
+  const reflectionByEntry = new Map(
+    aiReflections.map(reflection => [reflection.moodEntryId.toString(), reflection.content])
+  );
+
+  return toCsv(
+    ["id", "created_at", "emoji", "quick_mood", "energy", "valence", "text", "reflection"],
+    moodEntries.map(entry => [
+      entry._id.toString(),
+      entry.createdAt,
+      entry.emoji,
+      entry.quickMood,
+      entry.energy,
+      entry.valence,
+      entry.text,
+      reflectionByEntry.get(entry._id.toString()) ?? null,
+    ])
+  );
+}
+
+export interface JournalImportResult {
+  moodEntries: number;
+  aiReflections: number;
+  spotifyRecommendations: number;
+  savedPlaylists: number;
+}
+
+// Restore an archive into the user's journal. Every document gets a fresh id
+// and references are rewritten; references to documents missing from the
+// archive are dropped. A failed import removes whatever it already wrote.
+export async function importJournal(userId: string, archive: JournalArchive): Promise<JournalImportResult> {
+  const owner = new ObjectId(userId);
+  const entryIds = new Map(archive.moodEntries.map(entry => [entry._id, new ObjectId()]));
+  const recommendationIds = new Map(archive.spotifyRecommendations.map(rec => [rec._id, new ObjectId()]));
+
+  const moodEntries = archive.moodEntries.map(({ _id, ...entry }) => ({
+    ...entry,
+    _id: entryIds.get(_id)!,
+    userId: owner,
+    ...(UNFINISHED_STATUSES.has(entry.processingStatus)
+      ? { processingStatus: "failed" as const, processingError: UNPROCESSED_IMPORT_ERROR }
+      : { processingError: entry.processingError ?? null }),
+  }));
+
+  const aiReflections = archive.aiReflections
+    .filter(reflection => entryIds.has(reflection.moodEntryId))
+    .map(({ _id, moodEntryId, ...reflection }) => ({
+      ...reflection,
+      _id: new ObjectId(),
+      userId: owner,
+      moodEntryId: entryIds.get(moodEntryId)!,
+    }));
+
+  const spotifyRecommendations = archive.spotifyRecommendations
+    .filter(rec => entryIds.has(rec.moodEntryId))
+    .map(({ _id, moodEntryId, ...rec }) => ({
+      ...rec,
+      _id: recommendationIds.get(_id)!,
+      userId: owner,
+      moodEntryId: entryIds.get(moodEntryId)!,
+    }));
+  const importedRecommendations = new Set(spotifyRecommendations.map(rec => rec._id));
+
+  const savedPlaylists = archive.savedPlaylists.map(({ _id, moodEntryIds, tracks, ...playlist }) => ({
+    ...playlist,
+    _id: new ObjectId(),
+    userId: owner,
+    moodEntryIds: moodEntryIds.filter(id => entryIds.has(id)).map(id => entryIds.get(id)!),
+    tracks: tracks.map(({ recommendationId, ...track }) => {
+      const remapped = recommendationId ? recommendationIds.get(recommendationId) : undefined;
+      return {
+        ...track,
+        recommendationId: remapped && importedRecommendations.has(remapped) ? remapped : null,
+      };
+    }),
+  }));
+
+  await storage.importJournal({ moodEntries, aiReflections, spotifyRecommendations, savedPlaylists });
+  moodEntriesCreated.inc({ source: "import" }, moodEntries.length);
+
+  return {
+    moodEntries: moodEntries.length,
+    aiReflections: aiReflections.length,
+    spotifyRecommendations: spotifyRecommendations.length,
+    savedPlaylists: savedPlaylists.length,
+  };
+}
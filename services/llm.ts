@@ -0,0 +1,256 @@
+import OpenAI from "openai";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { config } from "../config";
+import { createLogger } from "../logger";
+
+const log = createLogger("llm");
+
+export interface MoodAnalysis {
+  energy: number;
+  valence: number;
+  dominantEmotions: string[];
+  suggestedGenres: string[];
+  reflection: string;
+}
+
+// A backend able to produce mood analyses and affirmations. Providers throw on
+// failure; callers in services/openai.ts decide how to fall back.
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  // Version of the analysis prompt, stored with each analysis; null when the
+  // provider uses no prompt
+  readonly promptVersion: string | null;
+  analyzeMood(moodText: string, energy: number, valence: number): Promise<MoodAnalysis>;
+  generateDailyAffirmation(recentMoods: string[]): Promise<string>;
+  // Throws when the provider is misconfigured. Used by the readiness check.
+  checkHealth?(): Promise<void>;
+}
+
+export type LlmProviderName = "openai" | "openai-compatible" | "offline";
+
+const ANALYSIS_SYSTEM_PROMPT = "You are an empathetic AI counselor. Analyze mood and suggest music genres.";
+// Bump whenever the analysis prompts change
+const ANALYSIS_PROMPT_VERSION = "mood-analysis-v1";
+const AFFIRMATION_SYSTEM_PROMPT = "Generate a short daily affirmation based on mood patterns.";
+
+// Models drift outside the 1-10 scales; pull them back rather than reject
+const moodScaleSchema = z.number().transform((value) => Math.min(10, Math.max(1, value)));
+
+// What the model is asked to return. Missing fields get defaults; anything of
+// the wrong shape fails the analysis so the caller falls back.
+const llmAnalysisSchema = z.object({
+  energy: moodScaleSchema.nullish(),
+  valence: moodScaleSchema.nullish(),
+  dominantEmotions: z.array(z.string()).nullish(),
+  suggestedGenres: z.array(z.string()).nullish(),
+  reflection: z.string().nullish(),
+});
+
+function normalizeAnalysis(analysis: unknown, energy: number, valence: number): MoodAnalysis {
+  const result = llmAnalysisSchema.safeParse(analysis);
+  if (!result.success) {
+    throw new Error(`LLM analysis has an unexpected shape: ${fromZodError(result.error).message}`);
+  }
+  const parsed = result.data;
+  return {
+    energy: parsed.energy ?? energy,
+    valence: parsed.valence ?? valence,
+    dominantEmotions: parsed.dominantEmotions?.length ? parsed.dominantEmotions : ["neutral"],
+    suggestedGenres: parsed.suggestedGenres?.length ? parsed.suggestedGenres : ["pop"],
+    reflection: parsed.reflection || "Thank you for sharing your feelings."
+  };
+}
+
+// Local servers do not all honour JSON mode, so pull the first object out of the reply
+function parseJsonObject(content: string): unknown {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("LLM response did not contain a JSON object");
+  }
+  return JSON.parse(content.slice(start, end + 1));
+}
+
+interface ChatProviderOptions {
+  name: LlmProviderName;
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+  jsonMode: boolean;
+}
+
+// Talks to OpenAI or any server exposing the OpenAI chat completions API
+export class ChatCompletionsProvider implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly promptVersion = ANALYSIS_PROMPT_VERSION;
+  private client: OpenAI;
+  private jsonMode: boolean;
+  private apiKey: string;
+
+  constructor(options: ChatProviderOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.jsonMode = options.jsonMode;
+    this.apiKey = options.apiKey;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async checkHealth() {
+    // Local OpenAI-compatible servers usually run without a key
+    if (this.name === "openai" && !this.apiKey) {
+      throw new Error("OPENAI_API_KEY is not configured");
+    }
+  }
+
+  async analyzeMood(moodText: string, energy: number, valence: number): Promise<MoodAnalysis> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: "system",
+          content: ANALYSIS_SYSTEM_PROMPT
+        },
+        {
+          role: "user",
+          content: `Analyze: "${moodText}" Energy: ${energy}/10 Positivity: ${valence}/10. Return JSON with energy, valence, dominantEmotions, suggestedGenres, reflection.`
+        }
+      ],
+      ...(this.jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+      temperature: 0.7,
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`${this.name} returned an empty analysis`);
+    }
+    return normalizeAnalysis(parseJsonObject(content), energy, valence);
+  }
+
+  async generateDailyAffirmation(recentMoods: string[]): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: "system",
+          content: AFFIRMATION_SYSTEM_PROMPT
+        },
+        {
+          role: "user",
+          content: `Based on moods: ${recentMoods.join(", ")}, create a short affirmation.`
+        }
+      ],
+      temperature: 0.8,
+      max_tokens: 100
+    });
+
+    const affirmation = response.choices[0]?.message?.content?.trim();
+    if (!affirmation) {
+      throw new Error(`${this.name} returned an empty affirmation`);
+    }
+    return affirmation;
+  }
+}
+
+const EMOTION_KEYWORDS: Record<string, string[]> = {
+  happy: ["happy", "glad", "great", "good", "joy", "excited", "awesome", "love", "grateful"],
+  sad: ["sad", "down", "cry", "lonely", "miss", "lost", "hurt", "empty"],
+  anxious: ["anxious", "nervous", "worried", "stress", "stressed", "panic", "interview", "exam"],
+  angry: ["angry", "mad", "furious", "annoyed", "frustrated", "hate"],
+  tired: ["tired", "exhausted", "sleepy", "drained", "burnt", "burned"],
+  calm: ["calm", "peaceful", "relaxed", "chill", "content", "rested"],
+  hopeful: ["hope", "hopeful", "looking forward", "optimistic", "better"],
+};
+
+const AFFIRMATIONS = [
+  "Every feeling you experience is valid and brings you closer to understanding yourself.",
+  "You are allowed to take today one small step at a time.",
+  "Your feelings are information, not instructions. You get to choose what comes next.",
+  "You have made it through every hard day so far, and you are still growing.",
+  "Rest is productive too. Be as kind to yourself as you would be to a friend.",
+];
+
+// Stable string hash so the offline provider always answers the same way
+function hashText(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+// Deterministic, network-free provider for local development and tests
+export class OfflineProvider implements LlmProvider {
+  readonly name = "offline";
+  readonly model = "offline-lexicon-v1";
+  readonly promptVersion = null;
+
+  async analyzeMood(moodText: string, energy: number, valence: number): Promise<MoodAnalysis> {
+    const lower = moodText.toLowerCase();
+    const matched = Object.entries(EMOTION_KEYWORDS)
+      .map(([emotion, words]) => ({
+        emotion,
+        hits: words.filter(word => lower.includes(word)).length
+      }))
+      .filter(({ hits }) => hits > 0)
+      .sort((a, b) => b.hits - a.hits || a.emotion.localeCompare(b.emotion))
+      .map(({ emotion }) => emotion);
+
+    const dominantEmotions = matched.length > 0
+      ? matched.slice(0, 3)
+      : valence >= 7 ? ["happy", "energetic"]
+      : valence <= 3 ? ["sad", "reflective"]
+      : ["neutral", "contemplative"];
+
+    const suggestedGenres = valence >= 7 && energy >= 7 ? ["pop", "dance"]
+      : valence >= 7 ? ["indie", "soul"]
+      : valence <= 3 && energy <= 3 ? ["acoustic", "folk"]
+      : valence <= 3 ? ["blues", "rock"]
+      : energy <= 3 ? ["acoustic", "jazz"]
+      : ["pop", "rock"];
+
+    const lead = dominantEmotions[0];
+    const reflection = valence <= 4
+      ? `It sounds like you're feeling ${lead} right now, and that's okay. Naming it is already a step toward caring for yourself. Let some music keep you company while you sit with it.`
+      : `It sounds like you're feeling ${lead} today. Notice what helped you get here and hold on to it. Here's some music to match the moment.`;
+
+    return { energy, valence, dominantEmotions, suggestedGenres, reflection };
+  }
+
+  async generateDailyAffirmation(recentMoods: string[]): Promise<string> {
+    return AFFIRMATIONS[hashText(recentMoods.join("\n")) % AFFIRMATIONS.length];
+  }
+}
+
+export function createLlmProvider(): LlmProvider {
+  // Required keys and URLs were checked when the configuration was loaded
+  const { provider: requested, openaiApiKey, model, baseUrl, apiKey, jsonMode } = config.llm;
+
+  switch (requested ?? (openaiApiKey ? "openai" : "offline")) {
+    case "openai":
+      return new ChatCompletionsProvider({
+        name: "openai",
+        apiKey: openaiApiKey!,
+        model,
+        jsonMode: true
+      });
+
+    case "openai-compatible":
+      return new ChatCompletionsProvider({
+        name: "openai-compatible",
+        // Most local servers ignore the key, but the SDK refuses an empty one
+        apiKey: apiKey ?? "not-needed",
+        baseURL: baseUrl!,
+        model,
+        jsonMode
+      });
+
+    case "offline":
+      if (!requested) {
+        log.warn("OPENAI_API_KEY not set. Using the offline mood analysis provider.");
+      }
+      return new OfflineProvider();
+  }
+}
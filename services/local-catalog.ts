@@ -0,0 +1,159 @@
+import { readFileSync } from "fs";
+import path from "path";
+import bundledCatalog from "../data/local-catalog.json";
+import type { AudioFeatures, CatalogTrack, MusicCatalogProvider } from "./catalog";
+import { parseCsv } from "./csv";
+
+export interface LocalTrack {
+  id: string;
+  name: string;
+  artist: string;
+  album?: string | null;
+  genres: string[];
+  energy: number;   // 0-1
+  valence: number;  // 0-1
+  durationMs?: number | null;
+  previewUrl?: string | null;
+  imageUrl?: string | null;
+}
+
+const RECOMMENDATION_LIMIT = 10;
+
+// Columns: id,name,artist,album,genres,energy,valence,duration_ms,preview_url,image_url
+// Genres are separated by "|" or ";".
+function tracksFromCsv(content: string): LocalTrack[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+
+  const columns = header.map(h => h.trim().toLowerCase());
+  const column = (row: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index === -1 ? "" : (row[index] ?? "").trim();
+  };
+
+  return rows.map(row => ({
+    id: column(row, "id"),
+    name: column(row, "name"),
+    artist: column(row, "artist"),
+    album: column(row, "album") || null,
+    genres: column(row, "genres").split(/[|;]/).map(g => g.trim().toLowerCase()).filter(Boolean),
+    energy: Number(column(row, "energy")),
+    valence: Number(column(row, "valence")),
+    durationMs: Number(column(row, "duration_ms")) || null,
+    previewUrl: column(row, "preview_url") || null,
+    imageUrl: column(row, "image_url") || null,
+  }));
+}
+
+function validateTracks(tracks: LocalTrack[], source: string): LocalTrack[] {
+  const invalid = tracks.filter(track =>
+    !track.id || !track.name || !track.artist ||
+    !(track.energy >= 0 && track.energy <= 1) ||
+    !(track.valence >= 0 && track.valence <= 1)
+  );
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid tracks in music catalog ${source}: ${invalid.map(t => t.id || t.name || "(unnamed)").join(", ")}. ` +
+      "Every track needs an id, name, artist and energy/valence between 0 and 1."
+    );
+  }
+  return tracks;
+}
+
+export class LocalCatalogProvider implements MusicCatalogProvider {
+  readonly name = "local";
+  private tracks: LocalTrack[];
+  private byId: Map<string, LocalTrack>;
+
+  constructor(tracks: LocalTrack[]) {
+    this.tracks = tracks;
+    this.byId = new Map(tracks.map(track => [track.id, track]));
+  }
+
+  // Load a .json or .csv catalog, or the bundled demo catalog when no path is given
+  static fromPath(catalogPath?: string): LocalCatalogProvider {
+    if (!catalogPath) {
+      return new LocalCatalogProvider(validateTracks(bundledCatalog as LocalTrack[], "(bundled)"));
+    }
+
+    const resolved = path.resolve(catalogPath);
+    const content = readFileSync(resolved, "utf8");
+    const tracks = path.extname(resolved).toLowerCase() === ".csv"
+      ? tracksFromCsv(content)
+      : JSON.parse(content) as LocalTrack[];
+
+    return new LocalCatalogProvider(validateTracks(tracks, resolved));
+  }
+
+  private toCatalogTrack(track: LocalTrack): CatalogTrack {
+    return {
+      id: track.id,
+      name: track.name,
+      artists: track.artist.split(/\s*,\s*/).map(name => ({ name })),
+      album: {
+        images: track.imageUrl ? [{ url: track.imageUrl, height: 640, width: 640 }] : []
+      },
+      preview_url: track.previewUrl ?? null,
+      duration_ms: track.durationMs ?? 0,
+    };
+  }
+
+  async getRecommendations(energy: number, valence: number, genres: string[] = []): Promise<CatalogTrack[]> {
+    // Map 1-10 scale to the catalog's 0-1 scale
+    const targetEnergy = Math.max(0, Math.min(1, energy / 10));
+    const targetValence = Math.max(0, Math.min(1, valence / 10));
+    const wanted = new Set(genres.map(g => g.toLowerCase()));
+
+    return this.tracks
+      .map(track => {
+        const distance = Math.hypot(track.energy - targetEnergy, track.valence - targetValence);
+        const genreMatch = track.genres.some(g => wanted.has(g));
+        return { track, score: distance - (genreMatch ? 0.15 : 0) };
+      })
+      .sort((a, b) => a.score - b.score || a.track.id.localeCompare(b.track.id))
+      .slice(0, RECOMMENDATION_LIMIT)
+      .map(({ track }) => this.toCatalogTrack(track));
+  }
+
+  async getAudioFeatures(trackIds: string[]): Promise<Array<AudioFeatures | null>> {
+    return trackIds.map(id => {
+      const track = this.byId.get(id);
+      if (!track) return null;
+      return {
+        energy: track.energy,
+        valence: track.valence,
+        // Not tracked by the local catalog
+        danceability: 0,
+        acousticness: 0,
+        instrumentalness: 0,
+        speechiness: 0,
+      };
+    });
+  }
+
+  async getTracks(trackIds: string[]): Promise<Array<CatalogTrack | null>> {
+    return trackIds.map(id => {
+      const track = this.byId.get(id);
+      return track ? this.toCatalogTrack(track) : null;
+    });
+  }
+
+  async searchTracks(query: string, limit = 10): Promise<CatalogTrack[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    return this.tracks
+      .map(track => {
+        const haystack = [track.name, track.artist, track.album ?? "", ...track.genres].join(" ").toLowerCase();
+        return { track, hits: terms.filter(term => haystack.includes(term)).length };
+      })
+      .filter(({ hits }) => hits > 0)
+      .sort((a, b) => b.hits - a.hits || a.track.name.localeCompare(b.track.name))
+      .slice(0, limit)
+      .map(({ track }) => this.toCatalogTrack(track));
+  }
+
+  async getAvailableGenres(): Promise<string[]> {
+    return Array.from(new Set(this.tracks.flatMap(track => track.genres))).sort();
+  }
+}
@@ -0,0 +1,102 @@
+import { storage, type MoodEntryRecord } from "../storage";
+import { analyzeMood, type AnalyzeMoodOptions } from "./openai";
+import { catalogProvider } from "./catalog";
+import { publishMoodEvent } from "../realtime";
+
+export interface AnalyzeMoodEntryOptions extends AnalyzeMoodOptions {
+  // Can veto storing the result by throwing
+  beforeWrite?: () => Promise<void>;
+}
+
+// Analyze a stored mood entry and store its reflection, replacing any left
+// behind by an earlier attempt
+export async function analyzeMoodEntry(moodEntry: MoodEntryRecord, { fallback, beforeWrite }: AnalyzeMoodEntryOptions = {}) {
+  const userId = moodEntry.userId.toString();
+  const moodEntryId = moodEntry._id.toString();
+
+  // Analyze mood with AI
+  const moodAnalysis = await analyzeMood(
+    moodEntry.text,
+    moodEntry.energy,
+    moodEntry.valence,
+    { fallback }
+  );
+
+  await beforeWrite?.();
+
+  // Store the reflection with the rest of the analysis
+  const aiReflection = await storage.replaceAiReflection(userId, moodEntryId, {
+    content: moodAnalysis.reflection,
+    dominantEmotions: moodAnalysis.dominantEmotions,
+    suggestedGenres: moodAnalysis.suggestedGenres,
+    estimatedEnergy: moodAnalysis.energy,
+    estimatedValence: moodAnalysis.valence,
+    usedFallback: moodAnalysis.usedFallback,
+    model: moodAnalysis.model,
+    promptVersion: moodAnalysis.promptVersion
+  });
+  publishMoodEvent(userId, {
+    type: "mood-entry.reflection",
+    moodEntryId,
+    aiReflection
+  });
+
+  return { aiReflection, analysis: moodAnalysis };
+}
+
+// Fetch catalog recommendations for a mood entry and store them, replacing
+// any left behind by an earlier attempt. beforeWrite works as for
+// analyzeMoodEntry.
+export async function recommendForMoodEntry(
+  moodEntry: MoodEntryRecord,
+  suggestedGenres: string[],
+  beforeWrite?: () => Promise<void>
+) {
+  const userId = moodEntry.userId.toString();
+  const moodEntryId = moodEntry._id.toString();
+
+  // Get catalog recommendations based on user's actual mood input
+  const spotifyTracks = await catalogProvider.getRecommendations(
+    moodEntry.energy,     // Use user's actual energy (1-10 scale)
+    moodEntry.valence,    // Use user's actual valence (1-10 scale)
+    suggestedGenres
+  );
+
+  // Get audio features for recommendations
+  const trackIds = spotifyTracks.map(track => track.id);
+  const audioFeatures = await catalogProvider.getAudioFeatures(trackIds);
+
+  await beforeWrite?.();
+
+  // Store recommendations
+  const recommendations = await storage.replaceRecommendations(
+    userId,
+    moodEntryId,
+    spotifyTracks.map((track, index) => ({
+      spotifyTrackId: track.id,
+      trackName: track.name,
+      artistName: track.artists[0]?.name || "Unknown Artist",
+      albumImageUrl: track.album.images[0]?.url || null,
+      previewUrl: track.preview_url,
+      energy: audioFeatures[index]?.energy || 0.5,
+      valence: audioFeatures[index]?.valence || 0.5,
+    }))
+  );
+  publishMoodEvent(userId, {
+    type: "mood-entry.recommendations",
+    moodEntryId,
+    recommendations
+  });
+
+  return recommendations;
+}
+
+// Delete an entry with everything that hangs off it. Returns false when the
+// entry does not exist or belongs to someone else.
+export async function deleteMoodEntry(userId: string, id: string): Promise<boolean> {
+  const deleted = await storage.deleteMoodEntry(userId, id);
+  if (deleted) {
+    publishMoodEvent(userId, { type: "mood-entry.deleted", moodEntryId: id });
+  }
+  return deleted;
+}
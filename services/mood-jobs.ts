@@ -0,0 +1,212 @@
+import type { MoodProcessingStatus } from "../models";
+import type { InsertMoodEntry } from "../schema";
+import { storage, type RecordId, type MoodProcessingJobRecord } from "../storage";
+import { analyzeMoodEntry, recommendForMoodEntry } from "./mood-entries";
+import { CatalogUnavailableError } from "./catalog";
+import { publishMoodEvent } from "../realtime";
+import { createLogger } from "../logger";
+
+const log = createLogger("mood-jobs");
+
+const POLL_INTERVAL = 2_000;
+const RETRY_BASE_DELAY = 5_000;
+// A running job whose worker died is picked up again after this long
+const LOCK_TIMEOUT = 5 * 60_000;
+// How long finished jobs stay around for the status endpoint
+const FINISHED_JOB_RETENTION = 7 * 24 * 60 * 60_000;
+
+const finishedJobExpiry = () => new Date(Date.now() + FINISHED_JOB_RETENTION);
+
+async function setProcessingStatus(
+  userId: string,
+  moodEntryId: RecordId,
+  processingStatus: MoodProcessingStatus,
+  processingError: string | null = null
+) {
+  await storage.updateMoodEntry(userId, moodEntryId, { processingStatus, processingError });
+  publishMoodEvent(userId, {
+    type: "mood-entry.status",
+    moodEntryId: moodEntryId.toString(),
+    processingStatus,
+    processingError
+  });
+}
+
+// Store a new entry with its analysis already queued. Throws
+// PartialWriteError when neither could be kept.
+export async function createQueuedMoodEntry(userId: string, entry: InsertMoodEntry) {
+  const created = await storage.createQueuedMoodEntry(userId, entry);
+  wakeWorker();
+  return created;
+}
+
+// Queue analysis for an entry; recommendations are queued once it succeeds
+export async function enqueueMoodProcessing(moodEntry: { _id: RecordId; userId: RecordId; processingGeneration?: number }) {
+  await storage.createMoodProcessingJob({
+    userId: moodEntry.userId,
+    moodEntryId: moodEntry._id,
+    type: "analyze",
+    generation: moodEntry.processingGeneration ?? 0,
+  });
+  wakeWorker();
+}
+
+// Drop unfinished jobs for an entry before it is processed again
+export async function cancelMoodProcessing(moodEntryId: RecordId) {
+  await storage.cancelMoodProcessingJobs(moodEntryId);
+}
+
+// The entry was deleted or regenerated while the job ran
+class StaleJobError extends Error {
+  constructor() {
+    super("Mood entry was deleted or regenerated");
+    this.name = "StaleJobError";
+  }
+}
+
+// Whether the job still belongs to the entry's current round of processing
+async function isCurrent(job: MoodProcessingJobRecord) {
+  const moodEntry = await storage.getMoodEntry(job.userId, job.moodEntryId);
+  return moodEntry !== null && (moodEntry.processingGeneration ?? 0) === (job.generation ?? 0);
+}
+
+async function runJob(job: MoodProcessingJobRecord) {
+  const userId = job.userId.toString();
+  const moodEntry = await storage.getMoodEntry(userId, job.moodEntryId);
+  if (!moodEntry || (moodEntry.processingGeneration ?? 0) !== (job.generation ?? 0)) {
+    // Entry was deleted or regenerated while the job was queued
+    return;
+  }
+
+  // Checked again before each write, since regenerating cannot stop a job
+  // that is already running
+  const assertCurrent = async () => {
+    if (!(await isCurrent(job))) throw new StaleJobError();
+  };
+
+  if (job.type === "analyze") {
+    // Provider errors fail the attempt so it is retried; only the last
+    // attempt settles for the canned analysis
+    const { analysis } = await analyzeMoodEntry(moodEntry, {
+      fallback: job.attempts >= job.maxAttempts,
+      beforeWrite: assertCurrent,
+    });
+    await assertCurrent();
+    await setProcessingStatus(userId, moodEntry._id, "analyzed");
+    // Last, so a failure above cannot leave a recommend job behind for the
+    // retry to queue again
+    await storage.ensureMoodProcessingJob({
+      userId: moodEntry.userId,
+      moodEntryId: moodEntry._id,
+      type: "recommend",
+      suggestedGenres: analysis.suggestedGenres,
+      generation: job.generation ?? 0,
+    });
+  } else {
+    await recommendForMoodEntry(moodEntry, job.suggestedGenres, assertCurrent);
+    await assertCurrent();
+    await setProcessingStatus(userId, moodEntry._id, "recommended");
+  }
+}
+
+async function processJob(job: MoodProcessingJobRecord) {
+  try {
+    await runJob(job);
+    await storage.updateMoodProcessingJob(job._id, {
+      status: "completed",
+      lockedAt: null,
+      lastError: null,
+      expiresAt: finishedJobExpiry(),
+    });
+  } catch (error) {
+    if (error instanceof StaleJobError) {
+      log.info("Dropped results of a superseded mood processing job", { jobId: job._id, moodEntryId: job.moodEntryId });
+      await storage.updateMoodProcessingJob(job._id, {
+        status: "completed",
+        lockedAt: null,
+        lastError: null,
+        expiresAt: finishedJobExpiry(),
+      });
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const exhausted = job.attempts >= job.maxAttempts;
+    log.error("Mood processing job failed", {
+      jobId: job._id,
+      type: job.type,
+      moodEntryId: job.moodEntryId,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+      err: error
+    });
+
+    await storage.updateMoodProcessingJob(job._id, {
+      status: exhausted ? "failed" : "queued",
+      // Exponential backoff: 5s, 10s, 20s, ... or longer if the catalog asked us to wait
+      runAt: new Date(Date.now() + Math.max(
+        RETRY_BASE_DELAY * 2 ** (job.attempts - 1),
+        error instanceof CatalogUnavailableError ? error.retryAfterMs ?? 0 : 0
+      )),
+      lockedAt: null,
+      lastError: message,
+      expiresAt: exhausted ? finishedJobExpiry() : null,
+    });
+
+    if (exhausted && await isCurrent(job)) {
+      await setProcessingStatus(job.userId.toString(), job.moodEntryId, "failed", message);
+    }
+  }
+}
+
+let timer: NodeJS.Timeout | null = null;
+let draining = false;
+let running = false;
+
+async function drain() {
+  if (draining) return;
+  draining = true;
+  try {
+    // Skip the poll while the database is unavailable
+    while (running && storage.isConnected()) {
+      const job = await storage.claimMoodProcessingJob(new Date(), LOCK_TIMEOUT);
+      if (!job) break;
+      await processJob(job);
+    }
+  } catch (error) {
+    log.error("Mood job worker poll failed", error);
+  } finally {
+    draining = false;
+  }
+}
+
+function wakeWorker() {
+  if (running) {
+    void drain();
+  }
+}
+
+export function startMoodJobWorker() {
+  if (running) return;
+  running = true;
+  timer = setInterval(() => void drain(), POLL_INTERVAL);
+  void drain();
+}
+
+export function stopMoodJobWorker() {
+  running = false;
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+// Processing state of an entry for clients polling instead of using the live feed
+export async function getMoodProcessingJobs(moodEntry: { _id: RecordId; processingGeneration?: number }) {
+  const jobs = await storage.getMoodProcessingJobs(moodEntry._id);
+  // Jobs from before the last regenerate no longer describe the entry
+  const generation = moodEntry.processingGeneration ?? 0;
+  return jobs.filter(job => (job.generation ?? 0) === generation).map(({ _id, type, status, attempts, maxAttempts, runAt, lastError, createdAt, updatedAt }) => ({
+    _id, type, status, attempts, maxAttempts, runAt, lastError, createdAt, updatedAt
+  }));
+}
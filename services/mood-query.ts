@@ -0,0 +1,51 @@
+import mongoose from "mongoose";
+import { storage } from "../storage";
+import type { MoodEntryListQuery } from "../schema";
+
+export class MoodQueryError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "MoodQueryError";
+  }
+}
+
+interface Cursor {
+  createdAt: Date;
+  id: mongoose.Types.ObjectId;
+}
+
+// Opaque to clients: base64url of the last item's createdAt and _id
+export function encodeCursor(createdAt: Date, id: mongoose.Types.ObjectId): string {
+  return Buffer.from(JSON.stringify([createdAt.toISOString(), id.toString()])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): Cursor {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const date = new Date(createdAt);
+    if (Number.isNaN(date.getTime()) || !mongoose.Types.ObjectId.isValid(id)) {
+      throw new Error("Malformed cursor");
+    }
+    return { createdAt: date, id: new mongoose.Types.ObjectId(id) };
+  } catch {
+    throw new MoodQueryError(400, "Invalid cursor");
+  }
+}
+
+// Keyset pagination on (createdAt, _id), stable under concurrent inserts
+export async function listMoodEntries(userId: string, query: MoodEntryListQuery) {
+  const { cursor, limit, ...filters } = query;
+  const entries = await storage.listMoodEntries(userId, {
+    ...filters,
+    after: cursor ? decodeCursor(cursor) : undefined,
+    limit: limit + 1,
+  });
+
+  const page = entries.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: page,
+    nextCursor: entries.length > limit && last ? encodeCursor(last.createdAt, last._id) : null,
+  };
+}
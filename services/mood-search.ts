@@ -0,0 +1,112 @@
+import { storage } from "../storage";
+import type { MoodSearchQuery } from "../schema";
+
+// Reflection hits count for less than hits in the user's own words
+const REFLECTION_WEIGHT = 0.75;
+// Upper bound on text matches pulled from each collection before ranking
+const CANDIDATE_LIMIT = 200;
+const SNIPPET_RADIUS = 60;
+
+export interface SearchSnippet {
+  text: string;
+  // [start, end) offsets into text of each highlighted match
+  highlights: Array<[number, number]>;
+}
+
+// Terms in MongoDB $search syntax: "quoted phrases", words, and -negated words
+function parseSearchTerms(query: string): string[] {
+  const terms: string[] = [];
+  const pattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    const negated = match[1] || match[3];
+    const term = (match[2] ?? match[4]).trim();
+    if (!negated && term) terms.push(term);
+  }
+  return terms;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Text indexes stem words, so highlight a term together with its word ending
+function termPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null;
+  const alternatives = terms
+    .sort((a, b) => b.length - a.length)
+    .map(term => `${escapeRegExp(term).replace(/\s+/g, "\\s+")}\\w*`);
+  return new RegExp(`\\b(?:${alternatives.join("|")})`, "gi");
+}
+
+export function buildSnippet(content: string, terms: string[]): SearchSnippet | null {
+  const pattern = termPattern(terms);
+  if (!pattern) return null;
+
+  const matches = Array.from(content.matchAll(pattern));
+  const first = matches[0];
+  if (!first || first.index === undefined) return null;
+
+  // Window around the first match, widened to word boundaries
+  let start = Math.max(0, first.index - SNIPPET_RADIUS);
+  let end = Math.min(content.length, first.index + first[0].length + SNIPPET_RADIUS);
+  if (start > 0) {
+    const space = content.indexOf(" ", start);
+    if (space !== -1 && space < first.index) start = space + 1;
+  }
+  if (end < content.length) {
+    const space = content.lastIndexOf(" ", end);
+    if (space > first.index + first[0].length) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < content.length ? "…" : "";
+  const highlights = matches
+    .filter(match => match.index! >= start && match.index! + match[0].length <= end)
+    .map(match => [
+      match.index! - start + prefix.length,
+      match.index! - start + prefix.length + match[0].length,
+    ] as [number, number]);
+
+  return { text: prefix + content.slice(start, end) + suffix, highlights };
+}
+
+// Ranked search over mood text and AI reflections, one result per entry
+export async function searchMoodEntries(userId: string, query: MoodSearchQuery) {
+  const { q, limit, ...filters } = query;
+
+  const [entryHits, reflectionHits] = await Promise.all([
+    storage.searchMoodEntryText(userId, q, filters, CANDIDATE_LIMIT),
+    storage.searchAiReflectionText(userId, q, CANDIDATE_LIMIT),
+  ]);
+
+  const scores = new Map<string, number>();
+  for (const hit of entryHits) {
+    scores.set(hit.moodEntryId.toString(), hit.score);
+  }
+  for (const hit of reflectionHits) {
+    const id = hit.moodEntryId.toString();
+    scores.set(id, (scores.get(id) ?? 0) + hit.score * REFLECTION_WEIGHT);
+  }
+
+  // Reflection-only hits still have to satisfy the entry filters
+  const entries = await storage.findMoodEntries(userId, Array.from(scores.keys()), filters);
+
+  const reflectionByEntry = new Map(reflectionHits.map(hit => [hit.moodEntryId.toString(), hit.content]));
+
+  const terms = parseSearchTerms(q);
+
+  return entries
+    .map(entry => {
+      const id = entry._id.toString();
+      const reflection = reflectionByEntry.get(id);
+      return {
+        moodEntry: { ...entry, id },
+        score: Math.round(scores.get(id)! * 1000) / 1000,
+        matches: {
+          text: buildSnippet(entry.text, terms),
+          reflection: reflection ? buildSnippet(reflection, terms) : null,
+        },
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.moodEntry.createdAt.getTime() - a.moodEntry.createdAt.getTime())
+    .slice(0, limit);
+}
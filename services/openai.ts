@@ -1,90 +1,95 @@
-import OpenAI from "openai";
+import { createLlmProvider, type LlmProvider, type MoodAnalysis } from "./llm";
 
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || "default_key" 
-});
+import { createLogger } from "../logger";
+import { llmCalls, llmCallDuration, moodAnalyses } from "../metrics";
 
-export interface MoodAnalysis {
-  energy: number;
-  valence: number; 
-  dominantEmotions: string[];
-  suggestedGenres: string[];
-  reflection: string;
+export type { MoodAnalysis } from "./llm";
+
+// An analysis with where it came from. Canned fallbacks come from no model or
+// prompt.
+export interface MoodAnalysisResult extends MoodAnalysis {
+  usedFallback: boolean;
+  model: string | null;
+  promptVersion: string | null;
 }
 
-export async function analyzeMood(moodText: string, energy: number, valence: number): Promise<MoodAnalysis> {
+const log = createLogger("llm");
+
+export const llmProvider: LlmProvider = createLlmProvider();
+
+log.info("Using LLM provider", { provider: llmProvider.name, model: llmProvider.model });
+
+// Count and time a provider call
+async function instrumented<T>(operation: string, call: () => Promise<T>): Promise<T> {
+  const labels = { provider: llmProvider.name, operation };
+  const end = llmCallDuration.startTimer(labels);
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an empathetic AI counselor. Analyze mood and suggest music genres."
-        },
-        {
-          role: "user",
-          content: `Analyze: "${moodText}" Energy: ${energy}/10 Positivity: ${valence}/10. Return JSON with energy, valence, dominantEmotions, suggestedGenres, reflection.`
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.7,
-    });
+    const result = await call();
+    llmCalls.inc({ ...labels, outcome: "success" });
+    end({ outcome: "success" });
+    return result;
+  } catch (error) {
+    llmCalls.inc({ ...labels, outcome: "error" });
+    end({ outcome: "error" });
+    throw error;
+  }
+}
 
-    const content = response.choices[0]?.message?.content;
-    if (content) {
-      const analysis = JSON.parse(content);
-      return {
-        energy: analysis.energy || energy,
-        valence: analysis.valence || valence,
-        dominantEmotions: analysis.dominantEmotions || ["neutral"],
-        suggestedGenres: analysis.suggestedGenres || ["pop"],
-        reflection: analysis.reflection || "Thank you for sharing your feelings."
-      };
-    }
+export interface AnalyzeMoodOptions {
+  // When false, provider errors are thrown so the caller can retry; otherwise
+  // they are answered with a canned analysis
+  fallback?: boolean;
+}
+
+export async function analyzeMood(
+  moodText: string,
+  energy: number,
+  valence: number,
+  { fallback = true }: AnalyzeMoodOptions = {}
+): Promise<MoodAnalysisResult> {
+  try {
+    const analysis = await instrumented("analyze_mood", () => llmProvider.analyzeMood(moodText, energy, valence));
+    moodAnalyses.inc({ provider: llmProvider.name, result: "model" });
+    return {
+      ...analysis,
+      usedFallback: false,
+      model: llmProvider.model,
+      promptVersion: llmProvider.promptVersion
+    };
   } catch (error) {
-    console.error("OpenAI analysis failed:", error);
+    if (!fallback) {
+      throw error;
+    }
+    log.error("Mood analysis failed, using fallback", { provider: llmProvider.name, err: error });
+    moodAnalyses.inc({ provider: llmProvider.name, result: "fallback" });
   }
-  
+
   // Fallback analysis
-  const fallbackGenres = valence >= 7 ? ["pop", "dance"] : 
-                        valence <= 3 ? ["blues", "folk"] : 
+  const fallbackGenres = valence >= 7 ? ["pop", "dance"] :
+                        valence <= 3 ? ["blues", "folk"] :
                         ["pop", "rock"];
-  
+
   const fallbackEmotions = valence >= 7 ? ["happy", "energetic"] :
                           valence <= 3 ? ["sad", "reflective"] :
                           ["neutral", "contemplative"];
-  
+
   return {
     energy,
     valence,
     dominantEmotions: fallbackEmotions,
     suggestedGenres: fallbackGenres,
-    reflection: "Thank you for sharing your feelings. I'm here to listen and help you explore your emotions through music."
+    reflection: "Thank you for sharing your feelings. I'm here to listen and help you explore your emotions through music.",
+    usedFallback: true,
+    model: null,
+    promptVersion: null
   };
 }
 
 export async function generateDailyAffirmation(recentMoods: string[]): Promise<string> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "Generate a short daily affirmation based on mood patterns."
-        },
-        {
-          role: "user",
-          content: `Based on moods: ${recentMoods.join(", ")}, create a short affirmation.`
-        }
-      ],
-      temperature: 0.8,
-      max_tokens: 100
-    });
-
-    return response.choices[0]?.message?.content?.trim() || 
-           "Every feeling you experience is valid and brings you closer to understanding yourself.";
+    return await instrumented("daily_affirmation", () => llmProvider.generateDailyAffirmation(recentMoods));
   } catch (error) {
-    console.error("Affirmation generation failed:", error);
+    log.error("Affirmation generation failed, using fallback", { provider: llmProvider.name, err: error });
     return "Every feeling you experience is valid and brings you closer to understanding yourself.";
   }
 }
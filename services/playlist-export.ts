@@ -0,0 +1,123 @@
+import { toCsv } from "./csv";
+
+export type PlaylistExportFormat = "m3u" | "xspf" | "csv";
+
+export interface ExportTrack {
+  spotifyTrackId: string;
+  trackName: string;
+  artistName: string;
+  albumImageUrl?: string | null;
+  previewUrl?: string | null;
+}
+
+export interface ExportPlaylist {
+  title: string;
+  description?: string | null;
+  tracks: ExportTrack[];
+}
+
+export const EXPORT_CONTENT_TYPES: Record<PlaylistExportFormat, string> = {
+  m3u: "audio/x-mpegurl",
+  xspf: "application/xspf+xml",
+  csv: "text/csv",
+};
+
+const FILE_EXTENSIONS: Record<PlaylistExportFormat, string> = {
+  m3u: "m3u8",
+  xspf: "xspf",
+  csv: "csv",
+};
+
+// Local catalog tracks have no Spotify identity
+function spotifyUri(track: ExportTrack): string | null {
+  return /^[0-9A-Za-z]{22}$/.test(track.spotifyTrackId) ? `spotify:track:${track.spotifyTrackId}` : null;
+}
+
+function spotifyUrl(track: ExportTrack): string | null {
+  return spotifyUri(track) ? `https://open.spotify.com/track/${track.spotifyTrackId}` : null;
+}
+
+// Players need something to open: prefer the playable preview, then Spotify
+function trackLocation(track: ExportTrack): string | null {
+  return track.previewUrl || spotifyUrl(track);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// M3U has no escaping, so keep titles on a single line
+const singleLine = (value: string) => value.replace(/[\r\n]+/g, " ");
+
+export function renderM3u(playlist: ExportPlaylist): string {
+  const lines = ["#EXTM3U", `#PLAYLIST:${singleLine(playlist.title)}`];
+  for (const track of playlist.tracks) {
+    lines.push(`#EXTINF:-1,${singleLine(track.artistName)} - ${singleLine(track.trackName)}`);
+    const location = trackLocation(track);
+    // A bare comment keeps the entry visible even when nothing is playable
+    lines.push(location ?? `# ${track.spotifyTrackId}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function renderXspf(playlist: ExportPlaylist): string {
+  const element = (name: string, value: string | null | undefined) =>
+    value ? `      <${name}>${escapeXml(value)}</${name}>` : null;
+
+  const tracks = playlist.tracks.map(track => [
+    "    <track>",
+    element("location", trackLocation(track)),
+    element("identifier", spotifyUri(track)),
+    element("title", track.trackName),
+    element("creator", track.artistName),
+    element("image", track.albumImageUrl),
+    "    </track>",
+  ].filter(Boolean).join("\n"));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(playlist.title)}</title>`,
+    ...(playlist.description ? [`  <annotation>${escapeXml(playlist.description)}</annotation>`] : []),
+    "  <trackList>",
+    ...tracks,
+    "  </trackList>",
+    "</playlist>",
+    "",
+  ].join("\n");
+}
+
+export function renderCsv(playlist: ExportPlaylist): string {
+  return toCsv(
+    ["position", "track_name", "artist_name", "spotify_uri", "spotify_track_id", "preview_url"],
+    playlist.tracks.map((track, index) => [
+      index + 1,
+      track.trackName,
+      track.artistName,
+      spotifyUri(track),
+      track.spotifyTrackId,
+      track.previewUrl,
+    ])
+  );
+}
+
+export function renderPlaylist(playlist: ExportPlaylist, format: PlaylistExportFormat): string {
+  switch (format) {
+    case "m3u":
+      return renderM3u(playlist);
+    case "xspf":
+      return renderXspf(playlist);
+    case "csv":
+      return renderCsv(playlist);
+  }
+}
+
+export function exportFilename(title: string, format: PlaylistExportFormat): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "playlist";
+  return `${slug}.${FILE_EXTENSIONS[format]}`;
+}
@@ -0,0 +1,143 @@
+import type { IPlaylistTrack } from "../models";
+import { storage, type PlaylistRecord } from "../storage";
+import { catalogProvider } from "./catalog";
+import type { InsertSavedPlaylist, UpdateSavedPlaylist, PlaylistTrackRef } from "../schema";
+
+export class PlaylistError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "PlaylistError";
+  }
+}
+
+export function serializePlaylist(playlist: PlaylistRecord) {
+  return {
+    ...playlist,
+    id: playlist._id.toString(),
+    tracks: playlist.tracks.map(track => ({
+      ...track,
+      id: track._id.toString()
+    }))
+  };
+}
+
+// Turn a track reference into the metadata snapshot stored on the playlist
+async function resolveTrack(userId: string, ref: PlaylistTrackRef): Promise<IPlaylistTrack> {
+  if ("recommendationId" in ref) {
+    const recommendation = await storage.getRecommendation(userId, ref.recommendationId);
+    if (!recommendation) {
+      throw new PlaylistError(404, `Recommendation ${ref.recommendationId} not found`);
+    }
+    return {
+      spotifyTrackId: recommendation.spotifyTrackId,
+      trackName: recommendation.trackName,
+      artistName: recommendation.artistName,
+      albumImageUrl: recommendation.albumImageUrl,
+      previewUrl: recommendation.previewUrl,
+      energy: recommendation.energy,
+      valence: recommendation.valence,
+      source: "recommendation",
+      recommendationId: recommendation._id,
+    };
+  }
+
+  const [[track], [features]] = await Promise.all([
+    catalogProvider.getTracks([ref.trackId]),
+    catalogProvider.getAudioFeatures([ref.trackId]),
+  ]);
+  if (!track) {
+    throw new PlaylistError(404, `Track ${ref.trackId} not found in the ${catalogProvider.name} catalog`);
+  }
+  return {
+    spotifyTrackId: track.id,
+    trackName: track.name,
+    artistName: track.artists[0]?.name || "Unknown Artist",
+    albumImageUrl: track.album.images[0]?.url || null,
+    previewUrl: track.preview_url,
+    energy: features?.energy ?? null,
+    valence: features?.valence ?? null,
+    source: "catalog",
+    recommendationId: null,
+  };
+}
+
+export async function createPlaylist(userId: string, data: InsertSavedPlaylist) {
+  const ownedEntries = await storage.findMoodEntries(userId, data.moodEntryIds);
+  if (ownedEntries.length !== new Set(data.moodEntryIds).size) {
+    throw new PlaylistError(400, "One or more mood entries were not found");
+  }
+
+  const tracks = await Promise.all(data.tracks.map(ref => resolveTrack(userId, ref)));
+
+  return storage.createPlaylist(userId, {
+    name: data.name,
+    description: data.description ?? null,
+    moodEntryIds: data.moodEntryIds,
+    tracks,
+  });
+}
+
+export function getPlaylists(userId: string) {
+  return storage.getPlaylists(userId);
+}
+
+export function getPlaylist(userId: string, id: string) {
+  return storage.getPlaylist(userId, id);
+}
+
+export function updatePlaylist(userId: string, id: string, updates: UpdateSavedPlaylist) {
+  return storage.updatePlaylist(userId, id, updates);
+}
+
+export function deletePlaylist(userId: string, id: string): Promise<boolean> {
+  return storage.deletePlaylist(userId, id);
+}
+
+export async function addPlaylistTrack(userId: string, id: string, ref: PlaylistTrackRef, position?: number) {
+  const playlist = await storage.getPlaylist(userId, id);
+  if (!playlist) {
+    return null;
+  }
+
+  const track = await resolveTrack(userId, ref);
+  return storage.addPlaylistTrack(userId, id, track, position);
+}
+
+export async function removePlaylistTrack(userId: string, id: string, trackId: string) {
+  const playlist = await storage.getPlaylist(userId, id);
+  if (!playlist) {
+    return null;
+  }
+
+  const updated = await storage.removePlaylistTrack(userId, id, trackId);
+  if (!updated) {
+    throw new PlaylistError(404, "Track is not on this playlist");
+  }
+  return updated;
+}
+
+// trackIds must list every track on the playlist exactly once, in the new order
+export async function reorderPlaylistTracks(userId: string, id: string, trackIds: string[]) {
+  const playlist = await storage.getPlaylist(userId, id);
+  if (!playlist) {
+    return null;
+  }
+
+  // ObjectId hex is case-insensitive; stored ids are lowercase
+  const ids = trackIds.map(trackId => trackId.toLowerCase());
+  const current = new Set(playlist.tracks.map(track => track._id.toString()));
+  const isPermutation = ids.length === current.size &&
+    new Set(ids).size === ids.length &&
+    ids.every(trackId => current.has(trackId));
+  if (!isPermutation) {
+    throw new PlaylistError(400, "trackIds must list every track on the playlist exactly once");
+  }
+
+  const updated = await storage.reorderPlaylistTracks(userId, id, ids);
+  if (!updated) {
+    // Deleted, or a track was added or removed since we read it
+    if (!(await storage.getPlaylist(userId, id))) return null;
+    throw new PlaylistError(409, "The playlist changed while reordering; reload it and try again");
+  }
+  return updated;
+}
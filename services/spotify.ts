@@ -1,101 +1,275 @@
+import {
+  CatalogUnavailableError,
+  type CatalogTrack as SpotifyTrack,
+  type AudioFeatures as SpotifyAudioFeatures,
+  type MusicCatalogProvider
+} from "./catalog";
+import { TtlCache, type CacheStats } from "./cache";
+import { CircuitBreaker } from "./circuit-breaker";
+import { config } from "../config";
+import { createLogger } from "../logger";
+import { spotifyApiRequests, spotifyRecommendations } from "../metrics";
+
+const log = createLogger("spotify");
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Response lifetimes per endpoint. Seeds repeat often, but results should
+// still vary from one session to the next.
+const RECOMMENDATIONS_TTL = 10 * MINUTE;
+const SEARCH_TTL = HOUR;
+const TRACKS_TTL = DAY;
+const GENRES_TTL = DAY;
+// Audio features of a track never change
+const AUDIO_FEATURES_TTL = 30 * DAY;
+
+const AUDIO_FEATURES_PREFIX = "/audio-features/";
+
+const REQUEST_TIMEOUT = config.catalog.spotify.timeoutMs;
+const MAX_RETRIES = config.catalog.spotify.maxRetries;
+const RETRY_BASE_DELAY = 500;
+// A longer Retry-After fails the request instead of holding it open
+const MAX_RETRY_DELAY = 10_000;
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_RESET_TIMEOUT = 30_000;
+
+// Spotify answered but rejected the request (bad ids, unsupported endpoint, ...).
+// Retrying will not help; callers treat it as "no results".
+class SpotifyApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "SpotifyApiError";
+  }
+}
+
+// Rate limiting, server errors, timeouts and network failures
+class TransientSpotifyError extends Error {
+  constructor(message: string, public retryAfterMs: number | null = null) {
+    super(message);
+    this.name = "TransientSpotifyError";
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function describeFetchError(error: unknown): string {
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return `timed out after ${REQUEST_TIMEOUT}ms`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 interface SpotifyAccessToken {
   access_token: string;
   token_type: string;
   expires_in: number;
 }
 
-interface SpotifyTrack {
-  id: string;
-  name: string;
-  artists: Array<{ name: string }>;
-  album: {
-    images: Array<{ url: string; height: number; width: number }>;
-  };
-  preview_url: string | null;
-  duration_ms: number;
-}
-
 interface SpotifyRecommendationsResponse {
   tracks: SpotifyTrack[];
 }
 
-interface SpotifyAudioFeatures {
-  energy: number;
-  valence: number;
-  danceability: number;
-  acousticness: number;
-  instrumentalness: number;
-  speechiness: number;
-}
-
-export class SpotifyService {
-  private clientId: string;
-  private clientSecret: string;
+export class SpotifyService implements MusicCatalogProvider {
+  readonly name = "spotify";
+  private clientId: string | null;
+  private clientSecret: string | null;
   private accessToken: string | null = null;
   private tokenExpires: number = 0;
+  // Responses keyed by endpoint including its query string
+  private responseCache: TtlCache<any>;
+  // Audio features keyed per track, so overlapping batches share entries
+  private audioFeaturesCache: TtlCache<SpotifyAudioFeatures>;
+  // One circuit per endpoint, so a broken /recommendations does not block /search
+  private breakers = new Map<string, CircuitBreaker>();
 
   constructor() {
-    this.clientId = process.env.SPOTIFY_CLIENT_ID || process.env.SPOTIFY_CLIENT_ID_ENV_VAR || "default_client_id";
-    this.clientSecret = process.env.SPOTIFY_CLIENT_SECRET || process.env.SPOTIFY_CLIENT_SECRET_ENV_VAR || "default_client_secret";
+    this.clientId = config.catalog.spotify.clientId;
+    this.clientSecret = config.catalog.spotify.clientSecret;
+
+    const maxEntries = config.catalog.spotify.cacheMaxEntries;
+    this.responseCache = new TtlCache(maxEntries, HOUR);
+    this.audioFeaturesCache = new TtlCache(maxEntries * 10, AUDIO_FEATURES_TTL);
+  }
+
+  public cacheStats(): Record<string, CacheStats> {
+    return {
+      responses: this.responseCache.stats(),
+      audioFeatures: this.audioFeaturesCache.stats(),
+    };
+  }
+
+  // Drop cached responses whose endpoint starts with prefix (e.g. "/search"),
+  // or everything when no prefix is given
+  public invalidateCache(prefix?: string): number {
+    return this.responseCache.invalidate(prefix) +
+      this.audioFeaturesCache.invalidate(prefix);
+  }
+
+  // Fetches a token, or reuses the cached one
+  public async checkHealth() {
+    await this.getAccessToken();
   }
 
   private async getAccessToken(): Promise<string> {
     if (this.accessToken && Date.now() < this.tokenExpires) {
       return this.accessToken;
     }
+    if (!this.clientId || !this.clientSecret) {
+      throw new CatalogUnavailableError(this.name, "SPOTIFY_CLIENT_ID and SPOTIFY_CLIENT_SECRET are not configured");
+    }
 
+    let response: globalThis.Response;
     try {
-      const response = await fetch("https://accounts.spotify.com/api/token", {
+      response = await fetch("https://accounts.spotify.com/api/token", {
         method: "POST",
         headers: {
           "Content-Type": "application/x-www-form-urlencoded",
           "Authorization": `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64")}`,
         },
         body: "grant_type=client_credentials",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
       });
+    } catch (error) {
+      throw new TransientSpotifyError(`Spotify auth request failed: ${describeFetchError(error)}`);
+    }
 
-      if (!response.ok) {
-        throw new Error(`Spotify auth failed: ${response.statusText}`);
-      }
+    if (response.status === 429 || response.status >= 500) {
+      throw new TransientSpotifyError(
+        `Spotify auth failed: ${response.status} ${response.statusText}`,
+        parseRetryAfter(response.headers.get("Retry-After"))
+      );
+    }
+    if (!response.ok) {
+      // Bad credentials: nothing will work until the configuration is fixed
+      log.error("Spotify authentication failed", { status: response.status });
+      throw new CatalogUnavailableError(this.name, "Unable to authenticate with Spotify");
+    }
 
-      const data: SpotifyAccessToken = await response.json();
-      this.accessToken = data.access_token;
-      this.tokenExpires = Date.now() + (data.expires_in * 1000) - 60000; // Refresh 1 minute early
+    const data: SpotifyAccessToken = await response.json();
+    this.accessToken = data.access_token;
+    this.tokenExpires = Date.now() + (data.expires_in * 1000) - 60000; // Refresh 1 minute early
 
-      return this.accessToken;
-    } catch (error) {
-      console.error("Spotify authentication failed:", error);
-      throw new Error("Unable to authenticate with Spotify");
+    return this.accessToken;
+  }
+
+  private breakerFor(path: string): CircuitBreaker {
+    let breaker = this.breakers.get(path);
+    if (!breaker) {
+      breaker = new CircuitBreaker(`Spotify ${path}`, {
+        failureThreshold: CIRCUIT_FAILURE_THRESHOLD,
+        resetTimeoutMs: CIRCUIT_RESET_TIMEOUT,
+      });
+      this.breakers.set(path, breaker);
     }
+    return breaker;
   }
 
+  // Call the API, retrying transient failures with exponential backoff.
+  // Throws SpotifyApiError when Spotify rejects the request and
+  // CatalogUnavailableError when it cannot be reached or its circuit is open.
   private async spotifyRequest(endpoint: string): Promise<any> {
+    const path = endpoint.split("?")[0];
+    const breaker = this.breakerFor(path);
+    if (!breaker.tryAcquire()) {
+      throw new CatalogUnavailableError(this.name, `Spotify ${path} is unavailable`, breaker.retryAfterMs);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const data = await this.attemptRequest(endpoint);
+        breaker.recordSuccess();
+        return data;
+      } catch (error) {
+        if (error instanceof SpotifyApiError) {
+          // Spotify answered, so it is up
+          breaker.recordSuccess();
+          throw error;
+        }
+        if (!(error instanceof TransientSpotifyError)) {
+          breaker.recordFailure();
+          throw error;
+        }
+
+        const delay = error.retryAfterMs ?? RETRY_BASE_DELAY * 2 ** attempt + Math.random() * RETRY_BASE_DELAY;
+        if (attempt >= MAX_RETRIES || delay > MAX_RETRY_DELAY) {
+          breaker.recordFailure();
+          throw new CatalogUnavailableError(this.name, `Spotify ${path} failed: ${error.message}`, error.retryAfterMs);
+        }
+
+        log.warn("Spotify request failed, retrying", { path, reason: error.message, attempt: attempt + 1, delayMs: Math.round(delay) });
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async attemptRequest(endpoint: string): Promise<any> {
     const token = await this.getAccessToken();
     
     const url = `https://api.spotify.com/v1${endpoint}`;
-    console.log(`Making Spotify request to: ${url}`);
-    
-    const response = await fetch(url, {
-      headers: {
-        "Authorization": `Bearer ${token}`,
-        "Accept": "application/json",
-        "Content-Type": "application/json",
-      },
-    });
-
-    console.log(`Spotify response status: ${response.status} ${response.statusText}`);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Spotify API error: ${response.status} ${response.statusText}`, errorText);
-      throw new Error(`Spotify API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+    // Query strings can hold search terms typed by users, so only the path is logged
+    const path = endpoint.split("?")[0];
+    const start = Date.now();
+
+    let response: globalThis.Response | undefined;
+    let data: any;
+    try {
+      response = await fetch(url, {
+        headers: {
+          "Authorization": `Bearer ${token}`,
+          "Accept": "application/json",
+          "Content-Type": "application/json",
+        },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      });
+
+      spotifyApiRequests.inc({ endpoint: path, outcome: response.status });
+      log.debug("Spotify response", { path, status: response.status, durationMs: Date.now() - start });
+
+      if (response.status === 401) {
+        // Token revoked or expired early: fetch a new one on the retry
+        this.accessToken = null;
+        throw new TransientSpotifyError("access token rejected", 0);
+      }
+      if (response.status === 429 || response.status >= 500) {
+        throw new TransientSpotifyError(
+          `${response.status} ${response.statusText}`,
+          parseRetryAfter(response.headers.get("Retry-After"))
+        );
+      }
+      if (!response.ok) {
+        const errorText = await response.text();
+        log.warn("Spotify rejected request", { path, status: response.status, body: errorText.slice(0, 500) });
+        throw new SpotifyApiError(response.status, `Spotify API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      data = await response.json();
+    } catch (error) {
+      if (error instanceof SpotifyApiError || error instanceof TransientSpotifyError) throw error;
+      if (!response) {
+        const timedOut = error instanceof Error && error.name === "TimeoutError";
+        spotifyApiRequests.inc({ endpoint: path, outcome: timedOut ? "timeout" : "network_error" });
+      }
+      throw new TransientSpotifyError(describeFetchError(error));
     }
 
-    const data = await response.json();
-    console.log(`Spotify response data:`, JSON.stringify(data, null, 2));
     return data;
   }
 
+  private cachedRequest(endpoint: string, ttlMs: number): Promise<any> {
+    return this.responseCache.getOrLoad(endpoint, () => this.spotifyRequest(endpoint), ttlMs);
+  }
+
   public async getRecommendations(
     energy: number, 
     valence: number, 
@@ -105,14 +279,20 @@ export class SpotifyService {
       // First try the official recommendations API
       const recommendationTracks = await this.tryOfficialRecommendations(energy, valence, genres);
       if (recommendationTracks.length > 0) {
+        spotifyRecommendations.inc({ source: "official" });
         return recommendationTracks;
       }
 
       // Fallback to search-based recommendations
-      console.log("Official recommendations API not available, using search fallback");
-      return await this.getSearchBasedRecommendations(energy, valence, genres);
+      log.info("Official recommendations returned nothing, using search fallback");
+      const searchTracks = await this.getSearchBasedRecommendations(energy, valence, genres);
+      spotifyRecommendations.inc({ source: searchTracks.length > 0 ? "search_fallback" : "none" });
+      return searchTracks;
     } catch (error) {
-      console.error("Failed to get any recommendations:", error);
+      spotifyRecommendations.inc({ source: "none" });
+      // Spotify being down is not the same as finding nothing
+      if (error instanceof CatalogUnavailableError) throw error;
+      log.error("Failed to get any recommendations", error);
       return [];
     }
   }
@@ -167,11 +347,11 @@ export class SpotifyService {
         market: "US"
       });
 
-      console.log("Trying official recommendations API...");
-      const data: SpotifyRecommendationsResponse = await this.spotifyRequest(`/recommendations?${params}`);
+      const data: SpotifyRecommendationsResponse = await this.cachedRequest(`/recommendations?${params}`, RECOMMENDATIONS_TTL);
       return data.tracks || [];
     } catch (error) {
-      console.log("Official recommendations API failed, will try search fallback");
+      // Includes an open circuit, which skips straight to search
+      log.info("Official recommendations API failed, will try search fallback", { reason: (error as Error).message });
       return [];
     }
   }
@@ -219,7 +399,8 @@ export class SpotifyService {
           
           if (allTracks.length >= 10) break;
         } catch (error) {
-          console.error(`Search failed for term "${term}":`, error);
+          if (error instanceof CatalogUnavailableError) throw error;
+          log.error("Search failed for mood term", { term, err: error });
         }
       }
 
@@ -230,24 +411,56 @@ export class SpotifyService {
 
       return uniqueTracks.slice(0, 10);
     } catch (error) {
-      console.error("Search-based recommendations failed:", error);
+      if (error instanceof CatalogUnavailableError) throw error;
+      log.error("Search-based recommendations failed", error);
       return [];
     }
   }
 
-  public async getAudioFeatures(trackIds: string[]): Promise<SpotifyAudioFeatures[]> {
+  public async getAudioFeatures(trackIds: string[]): Promise<Array<SpotifyAudioFeatures | null>> {
     try {
       if (trackIds.length === 0) return [];
-      
+
+      const cached = trackIds.map(id => this.audioFeaturesCache.get(AUDIO_FEATURES_PREFIX + id) ?? null);
+      const missing = Array.from(new Set(trackIds.filter((_, index) => !cached[index])));
+      if (missing.length === 0) return cached;
+
       const params = new URLSearchParams({
-        ids: trackIds.join(","),
+        ids: missing.join(","),
       });
 
       const data = await this.spotifyRequest(`/audio-features?${params}`);
-      return data.audio_features || [];
+      const fetched = new Map<string, SpotifyAudioFeatures>();
+      (data.audio_features || []).forEach((features: SpotifyAudioFeatures | null, index: number) => {
+        // Unknown tracks come back as null and are asked for again next time
+        if (!features) return;
+        fetched.set(missing[index], features);
+        this.audioFeaturesCache.set(AUDIO_FEATURES_PREFIX + missing[index], features);
+      });
+
+      return trackIds.map((id, index) => cached[index] ?? fetched.get(id) ?? null);
     } catch (error) {
-      console.error("Failed to get audio features:", error);
-      return [];
+      if (error instanceof CatalogUnavailableError) throw error;
+      log.error("Failed to get audio features", error);
+      return trackIds.map(() => null);
+    }
+  }
+
+  public async getTracks(trackIds: string[]): Promise<Array<SpotifyTrack | null>> {
+    try {
+      if (trackIds.length === 0) return [];
+
+      const params = new URLSearchParams({
+        ids: trackIds.join(","),
+        market: "US",
+      });
+
+      const data = await this.cachedRequest(`/tracks?${params}`, TRACKS_TTL);
+      return data.tracks || [];
+    } catch (error) {
+      if (error instanceof CatalogUnavailableError) throw error;
+      log.error("Failed to get tracks", error);
+      return trackIds.map(() => null);
     }
   }
 
@@ -260,20 +473,21 @@ export class SpotifyService {
         market: "US",
       });
 
-      const data = await this.spotifyRequest(`/search?${params}`);
+      const data = await this.cachedRequest(`/search?${params}`, SEARCH_TTL);
       return data.tracks?.items || [];
     } catch (error) {
-      console.error("Failed to search tracks:", error);
+      if (error instanceof CatalogUnavailableError) throw error;
+      log.error("Failed to search tracks", error);
       return [];
     }
   }
 
   public async getAvailableGenres(): Promise<string[]> {
     try {
-      const data = await this.spotifyRequest("/recommendations/available-genre-seeds");
+      const data = await this.cachedRequest("/recommendations/available-genre-seeds", GENRES_TTL);
       return data.genres || [];
     } catch (error) {
-      console.error("Failed to get available genres, using fallback list:", error);
+      log.error("Failed to get available genres, using fallback list", error);
       // Return a comprehensive list of common music genres as fallback
       return [
         "acoustic", "afrobeat", "alt-rock", "alternative", "ambient", "blues", 
@@ -0,0 +1,756 @@
+import mongoose from "mongoose";
+import { SCHEMA_VERSIONS, type IPlaylistTrack } from "./models";
+import type { InsertMoodEntry, MoodEntryFilters } from "./schema";
+import {
+  AXIS_MIDPOINT,
+  TOP_VALUES_LIMIT,
+  type MoodQuadrant,
+  type MoodTrendPoint,
+  type MoodTrends,
+  type TrendGranularity
+} from "./services/analytics";
+import {
+  DuplicateKeyError,
+  type IStorage,
+  type RecordId,
+  type UserRecord,
+  type NewUser,
+  type MoodEntryRecord,
+  type MoodEntryChanges,
+  type MoodEntryPageQuery,
+  type MoodTrendQuery,
+  type AiReflectionRecord,
+  type NewAiReflection,
+  type RecommendationRecord,
+  type NewRecommendation,
+  type PlaylistRecord,
+  type PlaylistTrackRecord,
+  type NewPlaylist,
+  type PlaylistChanges,
+  type MoodProcessingJobRecord,
+  type NewMoodProcessingJob,
+  type MoodProcessingJobChanges,
+  type IdempotencyKeyRecord,
+  type NewIdempotencyKey,
+  type IdempotencyKeyChanges,
+  type JournalRecords,
+  type JournalImport
+} from "./storage";
+
+const { ObjectId } = mongoose.Types;
+type Id = mongoose.Types.ObjectId;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Same as the job schema default
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Map keys for ids; ObjectId hex is case-insensitive
+const key = (id: RecordId) => String(id).toLowerCase();
+const toId = (id: RecordId): Id => (typeof id === "string" ? new ObjectId(id) : id);
+const sameId = (a: RecordId, b: RecordId) => key(a) === key(b);
+
+// Callers get copies, as they would from a database
+function copy<T extends object>(record: T): T {
+  const result = { ...record } as Record<string, unknown>;
+  for (const [field, value] of Object.entries(result)) {
+    if (Array.isArray(value)) {
+      result[field] = value.map(item =>
+        item && typeof item === "object" && !(item instanceof ObjectId) ? { ...item } : item
+      );
+    }
+  }
+  return result as T;
+}
+
+// Mongo's $set skips undefined values
+function defined<T extends object>(changes: T): Partial<T> {
+  return Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+// (createdAt, _id) order, the timeline order of mood entries
+function compareEntries(a: MoodEntryRecord, b: MoodEntryRecord): number {
+  return a.createdAt.getTime() - b.createdAt.getTime() || key(a._id).localeCompare(key(b._id));
+}
+
+function matchesFilters(entry: MoodEntryRecord, filters: MoodEntryFilters): boolean {
+  const within = (value: number, min?: number, max?: number) =>
+    (min === undefined || value >= min) && (max === undefined || value <= max);
+  return within(entry.createdAt.getTime(), filters.from?.getTime(), filters.to?.getTime()) &&
+    within(entry.energy, filters.minEnergy, filters.maxEnergy) &&
+    within(entry.valence, filters.minValence, filters.maxValence) &&
+    (!filters.quickMood || filters.quickMood.includes(entry.quickMood)) &&
+    (!filters.emoji || filters.emoji.includes(entry.emoji));
+}
+
+function toPlaylistTrack(track: IPlaylistTrack): PlaylistTrackRecord {
+  return {
+    ...track,
+    _id: track._id ?? new ObjectId(),
+    albumImageUrl: track.albumImageUrl ?? null,
+    previewUrl: track.previewUrl ?? null,
+    energy: track.energy ?? null,
+    valence: track.valence ?? null,
+    recommendationId: track.recommendationId ?? null,
+    addedAt: track.addedAt ?? new Date(),
+  };
+}
+
+// Full-text matching modelled on MongoDB's $text: any word matches, every
+// "phrase" must appear, and -negated words exclude a document. Words are
+// compared after stripping common English suffixes, and the score follows
+// the shape of textScore rather than its exact values.
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "i", "if", "in", "is", "it",
+  "me", "my", "of", "on", "or", "so", "that", "the", "this", "to", "was", "were", "with",
+]);
+
+const SUFFIXES = ["ingly", "edly", "ness", "ing", "ed", "ly", "es", "s"];
+
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      const base = word.slice(0, -suffix.length);
+      // running -> run, stopped -> stop
+      return /([^aeiouls])\1$/.test(base) ? base.slice(0, -1) : base;
+    }
+  }
+  // happy -> happi, to meet happiness -> happi
+  return word.replace(/([^aeiou])y$/, "$1i");
+}
+
+const tokenize = (text: string) => (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [])
+  .map(word => word.replace(/'s$|'/g, ""))
+  .filter(word => word && !STOP_WORDS.has(word))
+  .map(stem);
+
+interface TextQuery {
+  terms: string[];
+  phrases: string[];
+  negated: string[];
+}
+
+function parseTextQuery(search: string): TextQuery {
+  const query: TextQuery = { terms: [], phrases: [], negated: [] };
+  const pattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(search)) !== null) {
+    if (match[2] !== undefined) {
+      if (match[1]) query.negated.push(...tokenize(match[2]));
+      else {
+        query.phrases.push(match[2].trim().toLowerCase());
+        query.terms.push(...tokenize(match[2]));
+      }
+    } else if (match[3]) {
+      query.negated.push(...tokenize(match[4]));
+    } else {
+      query.terms.push(...tokenize(match[4]));
+    }
+  }
+  return query;
+}
+
+// 0 when the text does not match
+function textScore(text: string, query: TextQuery): number {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return 0;
+  if (query.negated.some(term => tokens.includes(term))) return 0;
+  const lowered = text.toLowerCase().replace(/\s+/g, " ");
+  if (query.phrases.some(phrase => !lowered.includes(phrase.replace(/\s+/g, " ")))) return 0;
+
+  let score = 0;
+  for (const term of new Set(query.terms)) {
+    const count = tokens.filter(token => token === term).length;
+    if (count > 0) score += count * (0.5 + (0.5 * count) / tokens.length);
+  }
+  return score;
+}
+
+// Mood trends, computed the way the MongoDB aggregation groups them
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function stats(values: number[]) {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { mean, stdDev: Math.sqrt(variance) };
+}
+
+function zonedFormatter(timezone: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  });
+}
+
+// Wall-clock time in the formatter's zone, expressed as if it were UTC
+function wallClock(formatter: Intl.DateTimeFormat, time: number): number {
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(time)).map(part => [part.type, Number(part.value)]));
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// Start of the day, Monday-based week or month containing time, in the zone
+function truncate(formatter: Intl.DateTimeFormat, time: number, unit: TrendGranularity): Date {
+  const local = new Date(wallClock(formatter, time));
+  let start = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), unit === "month" ? 1 : local.getUTCDate());
+  if (unit === "week") {
+    start -= ((local.getUTCDay() + 6) % 7) * DAY_MS;
+  }
+  // Back from wall-clock to UTC, using the offset in force at the result
+  const offset = (at: number) => wallClock(formatter, at) - Math.floor(at / 1000) * 1000;
+  return new Date(start - offset(start - offset(start)));
+}
+
+function topValues(values: string[]) {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, TOP_VALUES_LIMIT);
+}
+
+function quadrant(entry: MoodEntryRecord): MoodQuadrant {
+  if (entry.energy > AXIS_MIDPOINT && entry.valence > AXIS_MIDPOINT) return "energized";
+  if (entry.valence > AXIS_MIDPOINT) return "calm";
+  if (entry.energy > AXIS_MIDPOINT) return "tense";
+  return "down";
+}
+
+// Keeps everything in process memory: nothing survives a restart and
+// instances do not share data. For development and tests without MongoDB.
+export class MemoryStorage implements IStorage {
+  readonly name = "memory";
+
+  private users = new Map<string, UserRecord>();
+  private moodEntries = new Map<string, MoodEntryRecord>();
+  private aiReflections = new Map<string, AiReflectionRecord>();
+  private recommendations = new Map<string, RecommendationRecord>();
+  private playlists = new Map<string, PlaylistRecord>();
+  private jobs = new Map<string, MoodProcessingJobRecord>();
+  private idempotencyKeys = new Map<string, IdempotencyKeyRecord>();
+
+  constructor(sweepIntervalMs = 60_000) {
+    // Expired idempotency keys and finished jobs are reaped like MongoDB's
+    // TTL indexes would
+    setInterval(() => this.sweep(), sweepIntervalMs).unref();
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [id, record] of this.idempotencyKeys) {
+      if (record.expiresAt.getTime() <= now) this.idempotencyKeys.delete(id);
+    }
+    for (const [id, job] of this.jobs) {
+      if (job.expiresAt && job.expiresAt.getTime() <= now) this.jobs.delete(id);
+    }
+  }
+
+  async connect() {}
+
+  isConnected() {
+    return true;
+  }
+
+  async checkHealth() {}
+
+  private ownedEntries(userId: RecordId) {
+    return Array.from(this.moodEntries.values()).filter(entry => sameId(entry.userId, userId));
+  }
+
+  async createUser(user: NewUser) {
+    const email = user.email.trim().toLowerCase();
+    if (await this.getUserByEmail(email)) {
+      throw new DuplicateKeyError("An account with this email already exists");
+    }
+    const record: UserRecord = {
+      _id: new ObjectId(),
+      email,
+      passwordHash: user.passwordHash,
+      displayName: user.displayName ?? null,
+      schemaVersion: SCHEMA_VERSIONS.users,
+      createdAt: new Date(),
+    };
+    this.users.set(key(record._id), record);
+    return copy(record);
+  }
+
+  async getUser(id: RecordId) {
+    const user = this.users.get(key(id));
+    return user ? copy(user) : null;
+  }
+
+  async getUserByEmail(email: string) {
+    const normalized = email.trim().toLowerCase();
+    const user = Array.from(this.users.values()).find(candidate => candidate.email === normalized);
+    return user ? copy(user) : null;
+  }
+
+  // Nothing here can fail halfway, so both records are written or neither
+  async createQueuedMoodEntry(userId: RecordId, entry: InsertMoodEntry) {
+    const record: MoodEntryRecord = {
+      _id: new ObjectId(),
+      userId: toId(userId),
+      ...entry,
+      processingStatus: "pending",
+      processingError: null,
+      processingGeneration: 0,
+      schemaVersion: SCHEMA_VERSIONS.moodEntries,
+      createdAt: new Date(),
+    };
+    this.moodEntries.set(key(record._id), record);
+    const job = await this.createMoodProcessingJob({ userId, moodEntryId: record._id, type: "analyze" });
+    return { moodEntry: copy(record), job };
+  }
+
+  async getMoodEntry(userId: RecordId, id: RecordId) {
+    const entry = this.moodEntries.get(key(id));
+    return entry && sameId(entry.userId, userId) ? copy(entry) : null;
+  }
+
+  async findMoodEntries(userId: RecordId, ids: RecordId[], filters: MoodEntryFilters = {}) {
+    const wanted = new Set(ids.map(key));
+    return this.ownedEntries(userId)
+      .filter(entry => wanted.has(key(entry._id)) && matchesFilters(entry, filters))
+      .map(copy);
+  }
+
+  async listMoodEntries(userId: RecordId, query: MoodEntryPageQuery) {
+    const direction = query.sort === "newest" ? -1 : 1;
+    const after = query.after;
+    return this.ownedEntries(userId)
+      .filter(entry => matchesFilters(entry, query))
+      .filter(entry => !after ||
+        compareEntries(entry, { createdAt: after.createdAt, _id: after.id } as MoodEntryRecord) * direction > 0)
+      .sort((a, b) => compareEntries(a, b) * direction)
+      .slice(0, query.limit)
+      .map(copy);
+  }
+
+  async updateMoodEntry(userId: RecordId, id: RecordId, changes: MoodEntryChanges) {
+    const entry = this.moodEntries.get(key(id));
+    if (!entry || !sameId(entry.userId, userId)) return null;
+    Object.assign(entry, defined(changes));
+    return copy(entry);
+  }
+
+  async deleteMoodEntry(userId: RecordId, id: RecordId) {
+    const entry = this.moodEntries.get(key(id));
+    if (!entry || !sameId(entry.userId, userId)) return false;
+
+    this.moodEntries.delete(key(id));
+    await this.clearMoodInsights(userId, entry._id);
+    for (const [jobId, job] of this.jobs) {
+      if (sameId(job.moodEntryId, entry._id)) this.jobs.delete(jobId);
+    }
+    for (const playlist of this.playlists.values()) {
+      if (sameId(playlist.userId, userId)) {
+        playlist.moodEntryIds = playlist.moodEntryIds.filter(moodEntryId => !sameId(moodEntryId, entry._id));
+      }
+    }
+    return true;
+  }
+
+  async searchMoodEntryText(userId: RecordId, search: string, filters: MoodEntryFilters, limit: number) {
+    const query = parseTextQuery(search);
+    return this.ownedEntries(userId)
+      .filter(entry => matchesFilters(entry, filters))
+      .map(entry => ({ moodEntryId: entry._id, score: textScore(entry.text, query) }))
+      .filter(hit => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async getMoodTrends(userId: RecordId, query: MoodTrendQuery): Promise<MoodTrends> {
+    const { granularity, window, timezone } = query;
+    const entries = this.ownedEntries(userId).filter(entry => matchesFilters(entry, { from: query.from, to: query.to }));
+
+    const formatter = zonedFormatter(timezone);
+    const periods = new Map<number, MoodEntryRecord[]>();
+    for (const entry of entries) {
+      const period = truncate(formatter, entry.createdAt.getTime(), granularity).getTime();
+      periods.set(period, [...(periods.get(period) ?? []), entry]);
+    }
+
+    const groups = Array.from(periods)
+      .sort(([a], [b]) => a - b)
+      .map(([period, group]) => ({
+        period: new Date(period),
+        count: group.length,
+        energy: stats(group.map(entry => entry.energy)),
+        valence: stats(group.map(entry => entry.valence)),
+      }));
+
+    const series: MoodTrendPoint[] = groups.map((group, index) => {
+      const trailing = groups.slice(Math.max(0, index - window + 1), index + 1);
+      return {
+        period: group.period,
+        count: group.count,
+        avgEnergy: round(group.energy.mean),
+        avgValence: round(group.valence.mean),
+        movingAvgEnergy: round(stats(trailing.map(point => point.energy.mean)).mean),
+        movingAvgValence: round(stats(trailing.map(point => point.valence.mean)).mean),
+        energyVolatility: round(group.energy.stdDev),
+        valenceVolatility: round(group.valence.stdDev),
+      };
+    });
+
+    const quadrants: Record<MoodQuadrant, number> = { energized: 0, calm: 0, tense: 0, down: 0 };
+    for (const entry of entries) {
+      quadrants[quadrant(entry)]++;
+    }
+
+    const energy = entries.length > 0 ? stats(entries.map(entry => entry.energy)) : null;
+    const valence = entries.length > 0 ? stats(entries.map(entry => entry.valence)) : null;
+
+    return {
+      granularity,
+      window,
+      timezone,
+      summary: {
+        count: entries.length,
+        avgEnergy: energy && round(energy.mean),
+        avgValence: valence && round(valence.mean),
+        energyVolatility: energy && round(energy.stdDev),
+        valenceVolatility: valence && round(valence.stdDev),
+      },
+      series,
+      quadrants,
+      topQuickMoods: topValues(entries.map(entry => entry.quickMood)),
+      topEmojis: topValues(entries.map(entry => entry.emoji)),
+    };
+  }
+
+  async getAiReflection(userId: RecordId, moodEntryId: RecordId) {
+    const reflection = Array.from(this.aiReflections.values())
+      .find(candidate => sameId(candidate.moodEntryId, moodEntryId) && sameId(candidate.userId, userId));
+    return reflection ? copy(reflection) : null;
+  }
+
+  async findAiReflections(userId: RecordId, moodEntryIds: RecordId[]) {
+    const wanted = new Set(moodEntryIds.map(key));
+    return Array.from(this.aiReflections.values())
+      .filter(reflection => wanted.has(key(reflection.moodEntryId)) && sameId(reflection.userId, userId))
+      .map(copy);
+  }
+
+  async replaceAiReflection(userId: RecordId, moodEntryId: RecordId, reflection: NewAiReflection) {
+    for (const [id, existing] of this.aiReflections) {
+      if (sameId(existing.moodEntryId, moodEntryId) && sameId(existing.userId, userId)) {
+        this.aiReflections.delete(id);
+      }
+    }
+    const record: AiReflectionRecord = {
+      _id: new ObjectId(),
+      userId: toId(userId),
+      moodEntryId: toId(moodEntryId),
+      ...copy(reflection),
+      schemaVersion: SCHEMA_VERSIONS.aiReflections,
+      createdAt: new Date(),
+    };
+    this.aiReflections.set(key(record._id), record);
+    return copy(record);
+  }
+
+  async searchAiReflectionText(userId: RecordId, search: string, limit: number) {
+    const query = parseTextQuery(search);
+    return Array.from(this.aiReflections.values())
+      .filter(reflection => sameId(reflection.userId, userId))
+      .map(reflection => ({
+        moodEntryId: reflection.moodEntryId,
+        content: reflection.content,
+        score: textScore(reflection.content, query),
+      }))
+      .filter(hit => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async getRecommendation(userId: RecordId, id: RecordId) {
+    const recommendation = this.recommendations.get(key(id));
+    return recommendation && sameId(recommendation.userId, userId) ? copy(recommendation) : null;
+  }
+
+  async getRecommendations(userId: RecordId, moodEntryId: RecordId) {
+    return Array.from(this.recommendations.values())
+      .filter(rec => sameId(rec.moodEntryId, moodEntryId) && sameId(rec.userId, userId))
+      .sort((a, b) => key(a._id).localeCompare(key(b._id)))
+      .map(copy);
+  }
+
+  async replaceRecommendations(userId: RecordId, moodEntryId: RecordId, recommendations: NewRecommendation[]) {
+    for (const [id, rec] of this.recommendations) {
+      if (sameId(rec.moodEntryId, moodEntryId) && sameId(rec.userId, userId)) {
+        this.recommendations.delete(id);
+      }
+    }
+    const createdAt = new Date();
+    const records = recommendations.map(rec => ({
+      ...rec,
+      _id: new ObjectId(),
+      userId: toId(userId),
+      moodEntryId: toId(moodEntryId),
+      albumImageUrl: rec.albumImageUrl ?? null,
+      previewUrl: rec.previewUrl ?? null,
+      schemaVersion: SCHEMA_VERSIONS.spotifyRecommendations,
+      createdAt,
+    }));
+    for (const record of records) {
+      this.recommendations.set(key(record._id), record);
+    }
+    return records.map(copy);
+  }
+
+  async clearMoodInsights(userId: RecordId, moodEntryId: RecordId) {
+    for (const collection of [this.aiReflections, this.recommendations]) {
+      for (const [id, record] of collection) {
+        if (sameId(record.moodEntryId, moodEntryId) && sameId(record.userId, userId)) {
+          collection.delete(id);
+        }
+      }
+    }
+  }
+
+  async createPlaylist(userId: RecordId, playlist: NewPlaylist) {
+    const now = new Date();
+    const record: PlaylistRecord = {
+      _id: new ObjectId(),
+      userId: toId(userId),
+      name: playlist.name,
+      description: playlist.description ?? null,
+      moodEntryIds: playlist.moodEntryIds.map(toId),
+      tracks: playlist.tracks.map(toPlaylistTrack),
+      schemaVersion: SCHEMA_VERSIONS.savedPlaylists,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.playlists.set(key(record._id), record);
+    return copy(record);
+  }
+
+  async getPlaylists(userId: RecordId) {
+    return Array.from(this.playlists.values())
+      .filter(playlist => sameId(playlist.userId, userId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(copy);
+  }
+
+  async getPlaylist(userId: RecordId, id: RecordId) {
+    const playlist = this.playlists.get(key(id));
+    return playlist && sameId(playlist.userId, userId) ? copy(playlist) : null;
+  }
+
+  async updatePlaylist(userId: RecordId, id: RecordId, changes: PlaylistChanges) {
+    const playlist = this.playlists.get(key(id));
+    if (!playlist || !sameId(playlist.userId, userId)) return null;
+    const { moodEntryIds, tracks, ...fields } = defined(changes);
+    Object.assign(playlist, fields, {
+      ...(moodEntryIds ? { moodEntryIds: moodEntryIds.map(toId) } : {}),
+      ...(tracks ? { tracks: tracks.map(toPlaylistTrack) } : {}),
+      updatedAt: new Date(),
+    });
+    return copy(playlist);
+  }
+
+  async deletePlaylist(userId: RecordId, id: RecordId) {
+    const playlist = this.playlists.get(key(id));
+    if (!playlist || !sameId(playlist.userId, userId)) return false;
+    return this.playlists.delete(key(id));
+  }
+
+  async addPlaylistTrack(userId: RecordId, id: RecordId, track: IPlaylistTrack, position?: number) {
+    const playlist = this.playlists.get(key(id));
+    if (!playlist || !sameId(playlist.userId, userId)) return null;
+    playlist.tracks.splice(position ?? playlist.tracks.length, 0, toPlaylistTrack(track));
+    playlist.updatedAt = new Date();
+    return copy(playlist);
+  }
+
+  async removePlaylistTrack(userId: RecordId, id: RecordId, trackId: RecordId) {
+    const playlist = this.playlists.get(key(id));
+    if (!playlist || !sameId(playlist.userId, userId)) return null;
+    const tracks = playlist.tracks.filter(track => !sameId(track._id, trackId));
+    if (tracks.length === playlist.tracks.length) return null;
+    Object.assign(playlist, { tracks, updatedAt: new Date() });
+    return copy(playlist);
+  }
+
+  async reorderPlaylistTracks(userId: RecordId, id: RecordId, trackIds: RecordId[]) {
+    const playlist = this.playlists.get(key(id));
+    if (!playlist || !sameId(playlist.userId, userId)) return null;
+    const byId = new Map(playlist.tracks.map(track => [key(track._id), track]));
+    const ids = new Set(trackIds.map(key));
+    if (ids.size !== trackIds.length || ids.size !== byId.size || ![...ids].every(trackId => byId.has(trackId))) {
+      return null;
+    }
+    Object.assign(playlist, { tracks: [...ids].map(trackId => byId.get(trackId)!), updatedAt: new Date() });
+    return copy(playlist);
+  }
+
+  private findMoodProcessingJob(job: NewMoodProcessingJob) {
+    return Array.from(this.jobs.values()).find(candidate =>
+      sameId(candidate.moodEntryId, job.moodEntryId) &&
+      candidate.type === job.type &&
+      candidate.generation === (job.generation ?? 0));
+  }
+
+  async createMoodProcessingJob(job: NewMoodProcessingJob) {
+    if (this.findMoodProcessingJob(job)) {
+      throw new DuplicateKeyError("Mood entry already has this job");
+    }
+    const now = new Date();
+    const record: MoodProcessingJobRecord = {
+      _id: new ObjectId(),
+      userId: toId(job.userId),
+      moodEntryId: toId(job.moodEntryId),
+      type: job.type,
+      status: "queued",
+      suggestedGenres: job.suggestedGenres ?? [],
+      attempts: 0,
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      generation: job.generation ?? 0,
+      runAt: now,
+      lockedAt: null,
+      lastError: null,
+      expiresAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(key(record._id), record);
+    return copy(record);
+  }
+
+  async ensureMoodProcessingJob(job: NewMoodProcessingJob) {
+    const existing = this.findMoodProcessingJob(job);
+    return existing ? copy(existing) : this.createMoodProcessingJob(job);
+  }
+
+  async claimMoodProcessingJob(now: Date, lockTimeoutMs: number) {
+    const staleBefore = now.getTime() - lockTimeoutMs;
+    const job = Array.from(this.jobs.values())
+      .filter(candidate =>
+        (candidate.status === "queued" && candidate.runAt <= now) ||
+        (candidate.status === "running" && candidate.lockedAt !== null && candidate.lockedAt.getTime() < staleBefore))
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())[0];
+    if (!job) return null;
+
+    Object.assign(job, { status: "running", lockedAt: now, updatedAt: now, attempts: job.attempts + 1 });
+    return copy(job);
+  }
+
+  async updateMoodProcessingJob(id: RecordId, changes: MoodProcessingJobChanges) {
+    const job = this.jobs.get(key(id));
+    if (job) Object.assign(job, defined(changes), { updatedAt: new Date() });
+  }
+
+  async cancelMoodProcessingJobs(moodEntryId: RecordId) {
+    for (const [id, job] of this.jobs) {
+      if (sameId(job.moodEntryId, moodEntryId) && (job.status === "queued" || job.status === "running")) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+
+  async getMoodProcessingJobs(moodEntryId: RecordId) {
+    return Array.from(this.jobs.values())
+      .filter(job => sameId(job.moodEntryId, moodEntryId))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(copy);
+  }
+
+  private findIdempotencyKey(userId: RecordId, idempotencyKey: string) {
+    return Array.from(this.idempotencyKeys.values())
+      .find(record => record.key === idempotencyKey && sameId(record.userId, userId));
+  }
+
+  async createIdempotencyKey(record: NewIdempotencyKey) {
+    if (this.findIdempotencyKey(record.userId, record.key)) {
+      throw new DuplicateKeyError("Idempotency key already exists");
+    }
+    const created: IdempotencyKeyRecord = {
+      _id: new ObjectId(),
+      userId: toId(record.userId),
+      key: record.key,
+      requestHash: record.requestHash,
+      status: "in_progress",
+      responseStatus: null,
+      responseBody: null,
+      createdAt: new Date(),
+      expiresAt: record.expiresAt,
+    };
+    this.idempotencyKeys.set(key(created._id), created);
+    return copy(created);
+  }
+
+  async getIdempotencyKey(userId: RecordId, idempotencyKey: string) {
+    const record = this.findIdempotencyKey(userId, idempotencyKey);
+    return record ? copy(record) : null;
+  }
+
+  async replaceIdempotencyKey(
+    expected: Pick<IdempotencyKeyRecord, "_id" | "requestHash" | "status">,
+    changes: IdempotencyKeyChanges
+  ) {
+    const record = this.idempotencyKeys.get(key(expected._id));
+    if (!record || record.requestHash !== expected.requestHash || record.status !== expected.status) {
+      return null;
+    }
+    await this.updateIdempotencyKey(expected._id, changes);
+    return copy(record);
+  }
+
+  async updateIdempotencyKey(id: RecordId, changes: IdempotencyKeyChanges) {
+    const record = this.idempotencyKeys.get(key(id));
+    if (!record) return;
+    // Stored as the client received it, like a document round trip would
+    const responseBody = changes.responseBody === undefined
+      ? undefined
+      : JSON.parse(JSON.stringify(changes.responseBody ?? null));
+    Object.assign(record, defined({ ...changes, responseBody }));
+  }
+
+  async deleteIdempotencyKey(id: RecordId) {
+    this.idempotencyKeys.delete(key(id));
+  }
+
+  async getJournal(userId: RecordId): Promise<JournalRecords> {
+    const owned = <T extends { userId: Id; createdAt: Date; _id: Id }>(collection: Map<string, T>) =>
+      Array.from(collection.values())
+        .filter(record => sameId(record.userId, userId))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || key(a._id).localeCompare(key(b._id)))
+        .map(copy);
+
+    return {
+      moodEntries: owned(this.moodEntries),
+      aiReflections: owned(this.aiReflections),
+      spotifyRecommendations: owned(this.recommendations),
+      savedPlaylists: owned(this.playlists),
+    };
+  }
+
+  // Nothing here can fail halfway, so the import is all or nothing
+  async importJournal(journal: JournalImport) {
+    for (const entry of journal.moodEntries) {
+      this.moodEntries.set(key(entry._id), { schemaVersion: SCHEMA_VERSIONS.moodEntries, ...copy(entry) });
+    }
+    for (const reflection of journal.aiReflections) {
+      this.aiReflections.set(key(reflection._id), { schemaVersion: SCHEMA_VERSIONS.aiReflections, ...copy(reflection) });
+    }
+    for (const rec of journal.spotifyRecommendations) {
+      this.recommendations.set(key(rec._id), { schemaVersion: SCHEMA_VERSIONS.spotifyRecommendations, ...copy(rec) });
+    }
+    for (const playlist of journal.savedPlaylists) {
+      this.playlists.set(key(playlist._id), {
+        schemaVersion: SCHEMA_VERSIONS.savedPlaylists,
+        ...copy(playlist),
+        tracks: playlist.tracks.map(toPlaylistTrack),
+        updatedAt: playlist.updatedAt ?? new Date(),
+      });
+    }
+  }
+}
@@ -0,0 +1,629 @@
+import mongoose, { type FilterQuery, type PipelineStage } from "mongoose";
+import {
+  User,
+  MoodEntry,
+  AiReflection,
+  SpotifyRecommendation,
+  SavedPlaylist,
+  MoodProcessingJob,
+  IdempotencyKey,
+  type IPlaylistTrack
+} from "./models";
+import { connectToDatabase } from "./db";
+import { createLogger } from "./logger";
+import type { InsertMoodEntry, MoodEntryFilters } from "./schema";
+import { AXIS_MIDPOINT, TOP_VALUES_LIMIT, type MoodQuadrant, type MoodTrends } from "./services/analytics";
+import {
+  DuplicateKeyError,
+  PartialWriteError,
+  type MoodEntryCreationSteps,
+  type IStorage,
+  type RecordId,
+  type UserRecord,
+  type NewUser,
+  type MoodEntryRecord,
+  type MoodEntryChanges,
+  type MoodEntryPageQuery,
+  type TextSearchHit,
+  type MoodTrendQuery,
+  type AiReflectionRecord,
+  type NewAiReflection,
+  type RecommendationRecord,
+  type NewRecommendation,
+  type PlaylistRecord,
+  type NewPlaylist,
+  type PlaylistChanges,
+  type MoodProcessingJobRecord,
+  type NewMoodProcessingJob,
+  type MoodProcessingJobChanges,
+  type IdempotencyKeyRecord,
+  type NewIdempotencyKey,
+  type IdempotencyKeyChanges,
+  type JournalRecords,
+  type JournalImport
+} from "./storage";
+
+const log = createLogger("storage");
+
+type MoodEntryFilter = FilterQuery<InstanceType<typeof MoodEntry>>;
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Records leave Mongoose as plain objects without the version key
+const WITHOUT_VERSION = "-__v";
+
+const plain = <T>(doc: { toObject(options?: object): unknown }) => doc.toObject({ versionKey: false }) as T;
+
+const isValidId = (id: RecordId) => mongoose.Types.ObjectId.isValid(id);
+
+function rethrowDuplicateKey(error: unknown, message: string): never {
+  if (error instanceof mongoose.mongo.MongoServerError && error.code === DUPLICATE_KEY_ERROR) {
+    throw new DuplicateKeyError(message);
+  }
+  throw error;
+}
+
+function range(min?: number | Date, max?: number | Date) {
+  if (min === undefined && max === undefined) return undefined;
+  return {
+    ...(min !== undefined ? { $gte: min } : {}),
+    ...(max !== undefined ? { $lte: max } : {}),
+  };
+}
+
+function buildMoodEntryFilter(userId: RecordId, filters: MoodEntryFilters): MoodEntryFilter {
+  const filter: MoodEntryFilter = { userId: new mongoose.Types.ObjectId(userId) };
+
+  const createdAt = range(filters.from, filters.to);
+  if (createdAt) filter.createdAt = createdAt;
+
+  const energy = range(filters.minEnergy, filters.maxEnergy);
+  if (energy) filter.energy = energy;
+
+  const valence = range(filters.minValence, filters.maxValence);
+  if (valence) filter.valence = valence;
+
+  if (filters.quickMood) filter.quickMood = { $in: filters.quickMood };
+  if (filters.emoji) filter.emoji = { $in: filters.emoji };
+
+  return filter;
+}
+
+const round = (expression: unknown) => ({ $round: [expression, 2] });
+
+const textScore = { score: { $meta: "textScore" } } as const;
+
+export class MongoStorage implements IStorage {
+  readonly name = "mongo";
+
+  // Whether the deployment runs transactions, which takes a replica set or a
+  // sharded cluster. Without them multi-document writes undo themselves on
+  // failure instead.
+  private transactions = false;
+
+  async connect() {
+    await connectToDatabase();
+    const hello = await mongoose.connection.db!.admin().command({ hello: 1 });
+    this.transactions = Boolean(hello.setName) || hello.msg === "isdbgrid";
+    if (!this.transactions) {
+      log.warn("MongoDB is a standalone server without transactions; failed writes are rolled back by hand");
+    }
+  }
+
+  isConnected() {
+    return mongoose.connection.readyState === 1;
+  }
+
+  async checkHealth() {
+    const db = mongoose.connection.db;
+    if (!this.isConnected() || !db) {
+      throw new Error("Not connected");
+    }
+    await db.admin().ping();
+  }
+
+  async createUser(user: NewUser) {
+    try {
+      return plain<UserRecord>(await User.create(user));
+    } catch (error) {
+      rethrowDuplicateKey(error, "An account with this email already exists");
+    }
+  }
+
+  async getUser(id: RecordId) {
+    if (!isValidId(id)) return null;
+    return User.findById(id).select(WITHOUT_VERSION).lean<UserRecord>();
+  }
+
+  getUserByEmail(email: string) {
+    return User.findOne({ email: email.trim().toLowerCase() }).select(WITHOUT_VERSION).lean<UserRecord>();
+  }
+
+  async createQueuedMoodEntry(userId: RecordId, entry: InsertMoodEntry) {
+    const moodEntryId = new mongoose.Types.ObjectId();
+    const steps: MoodEntryCreationSteps = { moodEntry: "skipped", processingJob: "skipped" };
+    let step: keyof MoodEntryCreationSteps = "moodEntry";
+
+    // Runs again from the top when a transaction is retried
+    const write = async (session?: mongoose.ClientSession) => {
+      steps.moodEntry = steps.processingJob = "skipped";
+      step = "moodEntry";
+      const [moodEntry] = await MoodEntry.create([{ ...entry, _id: moodEntryId, userId }], { session });
+      steps.moodEntry = "succeeded";
+      step = "processingJob";
+      const [job] = await MoodProcessingJob.create([{ userId, moodEntryId, type: "analyze" }], { session });
+      steps.processingJob = "succeeded";
+      return { moodEntry: plain<MoodEntryRecord>(moodEntry), job: plain<MoodProcessingJobRecord>(job) };
+    };
+
+    try {
+      return this.transactions
+        ? await mongoose.connection.transaction(session => write(session))
+        : await write();
+    } catch (error) {
+      steps[step] = "failed";
+      // An aborted transaction leaves nothing behind
+      if (steps.moodEntry === "succeeded" && (this.transactions || await this.removeMoodEntry(moodEntryId))) {
+        steps.moodEntry = "rolled_back";
+      }
+      throw new PartialWriteError("Failed to create mood entry", steps, error);
+    }
+  }
+
+  // Undo a mood entry write that could not be completed. The entry stays
+  // behind, and is reported as kept, when this fails too.
+  private async removeMoodEntry(moodEntryId: mongoose.Types.ObjectId) {
+    try {
+      await MoodProcessingJob.deleteMany({ moodEntryId });
+      await MoodEntry.deleteOne({ _id: moodEntryId });
+      return true;
+    } catch (error) {
+      log.error("Failed to roll back mood entry", { moodEntryId: moodEntryId.toString(), err: error });
+      return false;
+    }
+  }
+
+  async getMoodEntry(userId: RecordId, id: RecordId) {
+    if (!isValidId(id)) return null;
+    return MoodEntry.findOne({ _id: id, userId }).select(WITHOUT_VERSION).lean<MoodEntryRecord>();
+  }
+
+  findMoodEntries(userId: RecordId, ids: RecordId[], filters: MoodEntryFilters = {}) {
+    return MoodEntry.find({ ...buildMoodEntryFilter(userId, filters), _id: { $in: ids.filter(isValidId) } })
+      .select(WITHOUT_VERSION)
+      .lean<MoodEntryRecord[]>();
+  }
+
+  // Keyset pagination on (createdAt, _id), stable under concurrent inserts
+  listMoodEntries(userId: RecordId, query: MoodEntryPageQuery) {
+    const filter = buildMoodEntryFilter(userId, query);
+    const direction = query.sort === "newest" ? -1 : 1;
+
+    if (query.after) {
+      const beyond = direction === -1 ? "$lt" : "$gt";
+      filter.$or = [
+        { createdAt: { [beyond]: query.after.createdAt } },
+        { createdAt: query.after.createdAt, _id: { [beyond]: query.after.id } },
+      ];
+    }
+
+    return MoodEntry.find(filter)
+      .sort({ createdAt: direction, _id: direction })
+      .limit(query.limit)
+      .select(WITHOUT_VERSION)
+      .lean<MoodEntryRecord[]>();
+  }
+
+  async updateMoodEntry(userId: RecordId, id: RecordId, changes: MoodEntryChanges) {
+    if (!isValidId(id)) return null;
+    return MoodEntry.findOneAndUpdate(
+      { _id: id, userId },
+      { $set: changes },
+      { new: true, runValidators: true }
+    ).select(WITHOUT_VERSION).lean<MoodEntryRecord>();
+  }
+
+  async deleteMoodEntry(userId: RecordId, id: RecordId) {
+    if (!isValidId(id)) return false;
+
+    const moodEntry = await MoodEntry.findOneAndDelete({ _id: id, userId });
+    if (!moodEntry) return false;
+
+    await Promise.all([
+      this.clearMoodInsights(userId, moodEntry._id),
+      MoodProcessingJob.deleteMany({ moodEntryId: moodEntry._id }),
+      SavedPlaylist.updateMany(
+        { userId, moodEntryIds: moodEntry._id },
+        { $pull: { moodEntryIds: moodEntry._id } }
+      ),
+    ]);
+    return true;
+  }
+
+  async searchMoodEntryText(userId: RecordId, search: string, filters: MoodEntryFilters, limit: number) {
+    const hits = await MoodEntry.find({ ...buildMoodEntryFilter(userId, filters), $text: { $search: search } }, textScore)
+      .sort(textScore)
+      .limit(limit)
+      .lean<Array<{ _id: mongoose.Types.ObjectId; score: number }>>();
+    return hits.map(hit => ({ moodEntryId: hit._id, score: hit.score }));
+  }
+
+  // Single aggregation over the user's entries. Needs MongoDB 5.0+ for
+  // $dateTrunc and $setWindowFields.
+  async getMoodTrends(userId: RecordId, query: MoodTrendQuery): Promise<MoodTrends> {
+    const { granularity, from, to, window, timezone } = query;
+
+    const match: Record<string, unknown> = { userId: new mongoose.Types.ObjectId(userId) };
+    const createdAt = range(from, to);
+    if (createdAt) match.createdAt = createdAt;
+
+    const pipeline: PipelineStage[] = [
+      { $match: match },
+      {
+        $facet: {
+          series: [
+            {
+              $group: {
+                _id: {
+                  $dateTrunc: { date: "$createdAt", unit: granularity, timezone, startOfWeek: "monday" }
+                },
+                count: { $sum: 1 },
+                avgEnergy: { $avg: "$energy" },
+                avgValence: { $avg: "$valence" },
+                energyVolatility: { $stdDevPop: "$energy" },
+                valenceVolatility: { $stdDevPop: "$valence" },
+              }
+            },
+            {
+              $setWindowFields: {
+                sortBy: { _id: 1 },
+                output: {
+                  movingAvgEnergy: { $avg: "$avgEnergy", window: { documents: [-(window - 1), 0] } },
+                  movingAvgValence: { $avg: "$avgValence", window: { documents: [-(window - 1), 0] } },
+                }
+              }
+            },
+            {
+              $project: {
+                _id: 0,
+                period: "$_id",
+                count: 1,
+                avgEnergy: round("$avgEnergy"),
+                avgValence: round("$avgValence"),
+                movingAvgEnergy: round("$movingAvgEnergy"),
+                movingAvgValence: round("$movingAvgValence"),
+                energyVolatility: round("$energyVolatility"),
+                valenceVolatility: round("$valenceVolatility"),
+              }
+            },
+          ],
+          summary: [
+            {
+              $group: {
+                _id: null,
+                count: { $sum: 1 },
+                avgEnergy: { $avg: "$energy" },
+                avgValence: { $avg: "$valence" },
+                energyVolatility: { $stdDevPop: "$energy" },
+                valenceVolatility: { $stdDevPop: "$valence" },
+              }
+            },
+            {
+              $project: {
+                _id: 0,
+                count: 1,
+                avgEnergy: round("$avgEnergy"),
+                avgValence: round("$avgValence"),
+                energyVolatility: round("$energyVolatility"),
+                valenceVolatility: round("$valenceVolatility"),
+              }
+            },
+          ],
+          quadrants: [
+            {
+              $group: {
+                _id: {
+                  $switch: {
+                    branches: [
+                      {
+                        case: { $and: [{ $gt: ["$energy", AXIS_MIDPOINT] }, { $gt: ["$valence", AXIS_MIDPOINT] }] },
+                        then: "energized"
+                      },
+                      { case: { $gt: ["$valence", AXIS_MIDPOINT] }, then: "calm" },
+                      { case: { $gt: ["$energy", AXIS_MIDPOINT] }, then: "tense" },
+                    ],
+                    default: "down"
+                  }
+                },
+                count: { $sum: 1 },
+              }
+            },
+          ],
+          topQuickMoods: [
+            { $sortByCount: "$quickMood" },
+            { $limit: TOP_VALUES_LIMIT },
+            { $project: { _id: 0, value: "$_id", count: 1 } },
+          ],
+          topEmojis: [
+            { $sortByCount: "$emoji" },
+            { $limit: TOP_VALUES_LIMIT },
+            { $project: { _id: 0, value: "$_id", count: 1 } },
+          ],
+        }
+      },
+    ];
+
+    const [result] = await MoodEntry.aggregate(pipeline);
+
+    const quadrants: Record<MoodQuadrant, number> = { energized: 0, calm: 0, tense: 0, down: 0 };
+    for (const { _id, count } of result.quadrants as Array<{ _id: MoodQuadrant; count: number }>) {
+      quadrants[_id] = count;
+    }
+
+    return {
+      granularity,
+      window,
+      timezone,
+      summary: result.summary[0] ?? {
+        count: 0,
+        avgEnergy: null,
+        avgValence: null,
+        energyVolatility: null,
+        valenceVolatility: null,
+      },
+      series: result.series,
+      quadrants,
+      topQuickMoods: result.topQuickMoods,
+      topEmojis: result.topEmojis,
+    };
+  }
+
+  async getAiReflection(userId: RecordId, moodEntryId: RecordId) {
+    if (!isValidId(moodEntryId)) return null;
+    return AiReflection.findOne({ moodEntryId, userId }).select(WITHOUT_VERSION).lean<AiReflectionRecord>();
+  }
+
+  findAiReflections(userId: RecordId, moodEntryIds: RecordId[]) {
+    return AiReflection.find({ userId, moodEntryId: { $in: moodEntryIds.filter(isValidId) } })
+      .select(WITHOUT_VERSION)
+      .lean<AiReflectionRecord[]>();
+  }
+
+  async replaceAiReflection(userId: RecordId, moodEntryId: RecordId, reflection: NewAiReflection) {
+    await AiReflection.deleteMany({ moodEntryId, userId });
+    return plain<AiReflectionRecord>(await AiReflection.create({ ...reflection, userId, moodEntryId }));
+  }
+
+  searchAiReflectionText(userId: RecordId, search: string, limit: number) {
+    return AiReflection.find(
+      { userId: new mongoose.Types.ObjectId(userId), $text: { $search: search } },
+      { ...textScore, moodEntryId: 1, content: 1, _id: 0 }
+    )
+      .sort(textScore)
+      .limit(limit)
+      .lean<Array<TextSearchHit & { content: string }>>();
+  }
+
+  async getRecommendation(userId: RecordId, id: RecordId) {
+    if (!isValidId(id)) return null;
+    return SpotifyRecommendation.findOne({ _id: id, userId }).select(WITHOUT_VERSION).lean<RecommendationRecord>();
+  }
+
+  async getRecommendations(userId: RecordId, moodEntryId: RecordId) {
+    if (!isValidId(moodEntryId)) return [];
+    return SpotifyRecommendation.find({ moodEntryId, userId })
+      .sort({ _id: 1 })
+      .select(WITHOUT_VERSION)
+      .lean<RecommendationRecord[]>();
+  }
+
+  async replaceRecommendations(userId: RecordId, moodEntryId: RecordId, recommendations: NewRecommendation[]) {
+    await SpotifyRecommendation.deleteMany({ moodEntryId, userId });
+    const inserted = await SpotifyRecommendation.insertMany(
+      recommendations.map(rec => ({ ...rec, userId, moodEntryId }))
+    );
+    return inserted.map(rec => plain<RecommendationRecord>(rec));
+  }
+
+  async clearMoodInsights(userId: RecordId, moodEntryId: RecordId) {
+    await Promise.all([
+      AiReflection.deleteMany({ moodEntryId, userId }),
+      SpotifyRecommendation.deleteMany({ moodEntryId, userId }),
+    ]);
+  }
+
+  async createPlaylist(userId: RecordId, playlist: NewPlaylist) {
+    return plain<PlaylistRecord>(await SavedPlaylist.create({ ...playlist, userId }));
+  }
+
+  getPlaylists(userId: RecordId) {
+    return SavedPlaylist.find({ userId }).sort({ createdAt: -1 }).select(WITHOUT_VERSION).lean<PlaylistRecord[]>();
+  }
+
+  async getPlaylist(userId: RecordId, id: RecordId) {
+    if (!isValidId(id)) return null;
+    return SavedPlaylist.findOne({ _id: id, userId }).select(WITHOUT_VERSION).lean<PlaylistRecord>();
+  }
+
+  async updatePlaylist(userId: RecordId, id: RecordId, changes: PlaylistChanges) {
+    if (!isValidId(id)) return null;
+    return SavedPlaylist.findOneAndUpdate(
+      { _id: id, userId },
+      { $set: { ...changes, updatedAt: new Date() } },
+      { new: true, runValidators: true }
+    ).select(WITHOUT_VERSION).lean<PlaylistRecord>();
+  }
+
+  async deletePlaylist(userId: RecordId, id: RecordId) {
+    if (!isValidId(id)) return false;
+    const result = await SavedPlaylist.deleteOne({ _id: id, userId });
+    return result.deletedCount > 0;
+  }
+
+  async addPlaylistTrack(userId: RecordId, id: RecordId, track: IPlaylistTrack, position?: number) {
+    if (!isValidId(id)) return null;
+    return SavedPlaylist.findOneAndUpdate(
+      { _id: id, userId },
+      {
+        $push: { tracks: { $each: [track], ...(position !== undefined ? { $position: position } : {}) } },
+        $set: { updatedAt: new Date() }
+      },
+      { new: true, runValidators: true }
+    ).select(WITHOUT_VERSION).lean<PlaylistRecord>();
+  }
+
+  async removePlaylistTrack(userId: RecordId, id: RecordId, trackId: RecordId) {
+    if (!isValidId(id) || !isValidId(trackId)) return null;
+    return SavedPlaylist.findOneAndUpdate(
+      { _id: id, userId, "tracks._id": trackId },
+      { $pull: { tracks: { _id: trackId } }, $set: { updatedAt: new Date() } },
+      { new: true }
+    ).select(WITHOUT_VERSION).lean<PlaylistRecord>();
+  }
+
+  async reorderPlaylistTracks(userId: RecordId, id: RecordId, trackIds: RecordId[]) {
+    if (!isValidId(id) || !trackIds.every(isValidId)) return null;
+    const ids = trackIds.map(trackId => new mongoose.Types.ObjectId(trackId));
+    if (new Set(ids.map(String)).size !== ids.length) return null;
+    // Matches only while the playlist holds exactly these tracks, so a track
+    // added or removed since the client read it fails the reorder
+    return SavedPlaylist.findOneAndUpdate(
+      { _id: id, userId, tracks: { $size: ids.length }, "tracks._id": { $all: ids } },
+      [{
+        $set: {
+          tracks: {
+            $map: {
+              input: ids,
+              as: "trackId",
+              in: { $arrayElemAt: ["$tracks", { $indexOfArray: ["$tracks._id", "$$trackId"] }] }
+            }
+          },
+          updatedAt: new Date()
+        }
+      }],
+      { new: true }
+    ).select(WITHOUT_VERSION).lean<PlaylistRecord>();
+  }
+
+  async createMoodProcessingJob(job: NewMoodProcessingJob) {
+    try {
+      return plain<MoodProcessingJobRecord>(await MoodProcessingJob.create(job));
+    } catch (error) {
+      rethrowDuplicateKey(error, "Mood entry already has this job");
+    }
+  }
+
+  async ensureMoodProcessingJob(job: NewMoodProcessingJob) {
+    const { moodEntryId, type, generation = 0, ...rest } = job;
+    const filter = { moodEntryId, type, generation };
+    try {
+      const record = await MoodProcessingJob.findOneAndUpdate(
+        filter,
+        { $setOnInsert: rest },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+      ).select(WITHOUT_VERSION).lean<MoodProcessingJobRecord>();
+      // An upsert always finds or creates a document
+      return record!;
+    } catch (error) {
+      // Two workers upserting at once: the unique index lets one insert, and
+      // the other takes its job
+      if (error instanceof mongoose.mongo.MongoServerError && error.code === DUPLICATE_KEY_ERROR) {
+        const existing = await MoodProcessingJob.findOne(filter).select(WITHOUT_VERSION).lean<MoodProcessingJobRecord>();
+        if (existing) return existing;
+      }
+      throw error;
+    }
+  }
+
+  claimMoodProcessingJob(now: Date, lockTimeoutMs: number) {
+    return MoodProcessingJob.findOneAndUpdate(
+      {
+        $or: [
+          { status: "queued", runAt: { $lte: now } },
+          { status: "running", lockedAt: { $lt: new Date(now.getTime() - lockTimeoutMs) } },
+        ]
+      },
+      { $set: { status: "running", lockedAt: now, updatedAt: now }, $inc: { attempts: 1 } },
+      { sort: { runAt: 1 }, new: true }
+    ).select(WITHOUT_VERSION).lean<MoodProcessingJobRecord>();
+  }
+
+  async updateMoodProcessingJob(id: RecordId, changes: MoodProcessingJobChanges) {
+    await MoodProcessingJob.updateOne({ _id: id }, { $set: { ...changes, updatedAt: new Date() } });
+  }
+
+  async cancelMoodProcessingJobs(moodEntryId: RecordId) {
+    await MoodProcessingJob.deleteMany({ moodEntryId, status: { $in: ["queued", "running"] } });
+  }
+
+  getMoodProcessingJobs(moodEntryId: RecordId) {
+    return MoodProcessingJob.find({ moodEntryId })
+      .sort({ createdAt: 1 })
+      .select(WITHOUT_VERSION)
+      .lean<MoodProcessingJobRecord[]>();
+  }
+
+  async createIdempotencyKey(record: NewIdempotencyKey) {
+    try {
+      return plain<IdempotencyKeyRecord>(await IdempotencyKey.create(record));
+    } catch (error) {
+      rethrowDuplicateKey(error, "Idempotency key already exists");
+    }
+  }
+
+  getIdempotencyKey(userId: RecordId, key: string) {
+    return IdempotencyKey.findOne({ userId, key }).select(WITHOUT_VERSION).lean<IdempotencyKeyRecord>();
+  }
+
+  replaceIdempotencyKey(
+    expected: Pick<IdempotencyKeyRecord, "_id" | "requestHash" | "status">,
+    changes: IdempotencyKeyChanges
+  ) {
+    return IdempotencyKey.findOneAndUpdate(
+      { _id: expected._id, requestHash: expected.requestHash, status: expected.status },
+      { $set: changes },
+      { new: true }
+    ).select(WITHOUT_VERSION).lean<IdempotencyKeyRecord>();
+  }
+
+  async updateIdempotencyKey(id: RecordId, changes: IdempotencyKeyChanges) {
+    await IdempotencyKey.updateOne({ _id: id }, { $set: changes });
+  }
+
+  async deleteIdempotencyKey(id: RecordId) {
+    await IdempotencyKey.deleteOne({ _id: id });
+  }
+
+  async getJournal(userId: RecordId): Promise<JournalRecords> {
+    const [moodEntries, aiReflections, spotifyRecommendations, savedPlaylists] = await Promise.all([
+      MoodEntry.find({ userId }).sort({ createdAt: 1 }).select(WITHOUT_VERSION).lean<MoodEntryRecord[]>(),
+      AiReflection.find({ userId }).sort({ createdAt: 1 }).select(WITHOUT_VERSION).lean<AiReflectionRecord[]>(),
+      SpotifyRecommendation.find({ userId })
+        .sort({ createdAt: 1, _id: 1 })
+        .select(WITHOUT_VERSION)
+        .lean<RecommendationRecord[]>(),
+      SavedPlaylist.find({ userId }).sort({ createdAt: 1 }).select(WITHOUT_VERSION).lean<PlaylistRecord[]>(),
+    ]);
+    return { moodEntries, aiReflections, spotifyRecommendations, savedPlaylists };
+  }
+
+  // Inserted collection by collection; a failure removes whatever was
+  // already written
+  async importJournal(journal: JournalImport) {
+    try {
+      await MoodEntry.insertMany(journal.moodEntries);
+      await AiReflection.insertMany(journal.aiReflections);
+      await SpotifyRecommendation.insertMany(journal.spotifyRecommendations);
+      await SavedPlaylist.insertMany(journal.savedPlaylists);
+    } catch (error) {
+      const importedEntries = journal.moodEntries.map(entry => entry._id);
+      await Promise.all([
+        MoodEntry.deleteMany({ _id: { $in: importedEntries } }),
+        AiReflection.deleteMany({ moodEntryId: { $in: importedEntries } }),
+        SpotifyRecommendation.deleteMany({ moodEntryId: { $in: importedEntries } }),
+        SavedPlaylist.deleteMany({ _id: { $in: journal.savedPlaylists.map(playlist => playlist._id) } }),
+      ]);
+      throw error;
+    }
+  }
+}
@@ -1,185 +1,270 @@
-import mongoose from 'mongoose';
-import {
-  MoodEntry,
-  AiReflection,
-  SpotifyRecommendation,
-  SavedPlaylist,
-  type IMoodEntry,
-  type IAiReflection,
-  type ISpotifyRecommendation,
-  type ISavedPlaylist
-} from './models';
-import { ensureDatabaseConnection } from './db';
-
-// Helper function to transform MongoDB document to include id field for frontend compatibility
-const transformMoodEntry = (doc: any) => {
-  if (!doc) return null;
-  const obj = doc.toObject ? doc.toObject() : doc;
-  return {
-    ...obj,
-    id: obj._id.toString()
-  };
-};
+import mongoose from "mongoose";
+import type {
+  IUser,
+  IMoodEntry,
+  IAiReflection,
+  ISpotifyRecommendation,
+  IPlaylistTrack,
+  ISavedPlaylist,
+  IMoodProcessingJob,
+  IIdempotencyKey,
+  MoodProcessingStatus
+} from "./models";
+import type { InsertMoodEntry, MoodEntryFilters } from "./schema";
+import type { MoodTrends, TrendGranularity } from "./services/analytics";
+import { MongoStorage } from "./storage-mongo";
+import { MemoryStorage } from "./storage-memory";
+import { config } from "./config";
+import { createLogger } from "./logger";
+
+const log = createLogger("storage");
+
+type Id = mongoose.Types.ObjectId;
+
+// Ids may be passed as strings or ObjectIds. Ids that are not valid ObjectIds
+// never match anything.
+export type RecordId = string | Id;
 
-const transformAiReflection = (doc: any) => {
-  if (!doc) return null;
-  const obj = doc.toObject ? doc.toObject() : doc;
-  return {
-    ...obj,
-    id: obj._id.toString()
-  };
+// Records are plain data shaped like the stored documents, with their id and
+// defaults filled in
+type Stored<T> = Omit<T, "_id" | "createdAt"> & { _id: Id; createdAt: Date };
+
+export type UserRecord = Stored<IUser> & { displayName: string | null };
+
+export type MoodEntryRecord = Stored<IMoodEntry> & {
+  processingStatus: MoodProcessingStatus;
+  processingError: string | null;
 };
 
-const transformSpotifyRecommendation = (doc: any) => {
-  if (!doc) return null;
-  const obj = doc.toObject ? doc.toObject() : doc;
-  return {
-    ...obj,
-    id: obj._id.toString()
-  };
+export type AiReflectionRecord = Stored<IAiReflection>;
+
+export type RecommendationRecord = Stored<ISpotifyRecommendation>;
+
+export type PlaylistTrackRecord = IPlaylistTrack & { _id: Id; addedAt: Date };
+
+export type PlaylistRecord = Stored<Omit<ISavedPlaylist, "tracks">> & {
+  tracks: PlaylistTrackRecord[];
+  updatedAt: Date;
 };
 
-const transformSavedPlaylist = (doc: any) => {
-  if (!doc) return null;
-  const obj = doc.toObject ? doc.toObject() : doc;
-  return {
-    ...obj,
-    id: obj._id.toString()
-  };
+export type MoodProcessingJobRecord = Stored<IMoodProcessingJob> & {
+  lockedAt: Date | null;
+  lastError: string | null;
+  updatedAt: Date;
 };
 
-export interface IStorage {
-  // Mood entries
-  createMoodEntry(entry: Omit<IMoodEntry, '_id' | 'createdAt'>): Promise<IMoodEntry>;
-  getMoodEntry(id: string): Promise<IMoodEntry | null>;
-  getAllMoodEntries(): Promise<IMoodEntry[]>;
-  getRecentMoodEntries(limit?: number): Promise<IMoodEntry[]>;
-
-  // AI Reflections
-  createAiReflection(reflection: Omit<IAiReflection, '_id' | 'createdAt'>): Promise<IAiReflection>;
-  getAiReflectionByMoodId(moodEntryId: string): Promise<IAiReflection | null>;
-
-  // Spotify Recommendations
-  createSpotifyRecommendations(recommendations: Omit<ISpotifyRecommendation, '_id' | 'createdAt'>[]): Promise<ISpotifyRecommendation[]>;
-  getSpotifyRecommendationsByMoodId(moodEntryId: string): Promise<ISpotifyRecommendation[]>;
-
-  // Saved Playlists
-  createSavedPlaylist(playlist: Omit<ISavedPlaylist, '_id' | 'createdAt'>): Promise<ISavedPlaylist>;
-  getSavedPlaylists(): Promise<ISavedPlaylist[]>;
+export type IdempotencyKeyRecord = Stored<IIdempotencyKey>;
+
+export type NewUser = Pick<IUser, "email" | "passwordHash" | "displayName">;
+
+export type MoodEntryChanges = Partial<InsertMoodEntry & {
+  processingStatus: MoodProcessingStatus;
+  processingError: string | null;
+  processingGeneration: number;
+}>;
+
+export type NewAiReflection = Omit<IAiReflection, "_id" | "userId" | "moodEntryId" | "schemaVersion" | "createdAt">;
+
+export type NewRecommendation = Omit<ISpotifyRecommendation, "_id" | "userId" | "moodEntryId" | "createdAt">;
+
+// Tracks without an _id get one, like any new playlist track
+export interface NewPlaylist {
+  name: string;
+  description: string | null;
+  moodEntryIds: RecordId[];
+  tracks: IPlaylistTrack[];
 }
 
-export class MongoStorage implements IStorage {
-  private ensureConnection() {
-    ensureDatabaseConnection();
-  }
+export type PlaylistChanges = Partial<NewPlaylist>;
 
-  async createMoodEntry(entry: Omit<IMoodEntry, '_id' | 'createdAt'>): Promise<IMoodEntry> {
-    this.ensureConnection();
-    const moodEntry = new MoodEntry(entry);
-    const saved = await moodEntry.save();
-    return transformMoodEntry(saved);
-  }
+export interface NewMoodProcessingJob {
+  userId: RecordId;
+  moodEntryId: RecordId;
+  type: IMoodProcessingJob["type"];
+  suggestedGenres?: string[];
+  generation?: number;
+}
 
-  async getMoodEntry(id: string): Promise<IMoodEntry | null> {
-    this.ensureConnection();
-    if (!mongoose.Types.ObjectId.isValid(id)) {
-      return null;
-    }
-    const doc = await MoodEntry.findById(id);
-    return transformMoodEntry(doc);
-  }
+export type MoodProcessingJobChanges = Partial<Pick<MoodProcessingJobRecord, "status" | "runAt" | "lockedAt" | "lastError" | "expiresAt">>;
 
-  async getAllMoodEntries(): Promise<IMoodEntry[]> {
-    this.ensureConnection();
-    const docs = await MoodEntry.find().sort({ createdAt: -1 });
-    return docs.map(transformMoodEntry);
-  }
+export type NewIdempotencyKey = Pick<IIdempotencyKey, "key" | "requestHash" | "expiresAt"> & { userId: RecordId };
 
-  async getRecentMoodEntries(limit = 10): Promise<IMoodEntry[]> {
-    this.ensureConnection();
-    const docs = await MoodEntry.find().sort({ createdAt: -1 }).limit(limit);
-    return docs.map(transformMoodEntry);
-  }
+export type IdempotencyKeyChanges = Partial<Pick<
+  IdempotencyKeyRecord,
+  "requestHash" | "status" | "responseStatus" | "responseBody" | "createdAt" | "expiresAt"
+>>;
 
-  async createAiReflection(reflection: Omit<IAiReflection, '_id' | 'createdAt'>): Promise<IAiReflection> {
-    this.ensureConnection();
-    const aiReflection = new AiReflection(reflection);
-    const saved = await aiReflection.save();
-    return transformAiReflection(saved);
-  }
+// One page of a user's timeline in (createdAt, _id) order
+export interface MoodEntryPageQuery extends MoodEntryFilters {
+  sort: "newest" | "oldest";
+  // Only entries strictly beyond this one in sort order
+  after?: { createdAt: Date; id: Id };
+  limit: number;
+}
 
-  async getAiReflectionByMoodId(moodEntryId: string): Promise<IAiReflection | null> {
-    this.ensureConnection();
-    if (!mongoose.Types.ObjectId.isValid(moodEntryId)) {
-      return null;
-    }
-    const doc = await AiReflection.findOne({ moodEntryId: new mongoose.Types.ObjectId(moodEntryId) });
-    return transformAiReflection(doc);
-  }
+// A full-text match and its relevance; higher scores are better matches
+export interface TextSearchHit {
+  moodEntryId: Id;
+  score: number;
+}
 
-  async createSpotifyRecommendations(recommendations: Omit<ISpotifyRecommendation, '_id' | 'createdAt'>[]): Promise<ISpotifyRecommendation[]> {
-    this.ensureConnection();
-    const saved = await SpotifyRecommendation.insertMany(recommendations);
-    return saved.map(transformSpotifyRecommendation);
-  }
+export interface MoodTrendQuery {
+  granularity: TrendGranularity;
+  from?: Date;
+  to?: Date;
+  window: number;
+  timezone: string;
+}
 
-  async getSpotifyRecommendationsByMoodId(moodEntryId: string): Promise<ISpotifyRecommendation[]> {
-    this.ensureConnection();
-    if (!mongoose.Types.ObjectId.isValid(moodEntryId)) {
-      return [];
-    }
-    const docs = await SpotifyRecommendation.find({ moodEntryId: new mongoose.Types.ObjectId(moodEntryId) });
-    return docs.map(transformSpotifyRecommendation);
-  }
+export interface JournalRecords {
+  moodEntries: MoodEntryRecord[];
+  aiReflections: AiReflectionRecord[];
+  spotifyRecommendations: RecommendationRecord[];
+  savedPlaylists: PlaylistRecord[];
+}
 
-  async createSavedPlaylist(playlist: Omit<ISavedPlaylist, '_id' | 'createdAt'>): Promise<ISavedPlaylist> {
-    this.ensureConnection();
-    const savedPlaylist = new SavedPlaylist(playlist);
-    const saved = await savedPlaylist.save();
-    return transformSavedPlaylist(saved);
-  }
+// Documents for a journal import, already owned by the importing user and
+// carrying fresh ids
+export interface JournalImport {
+  moodEntries: MoodEntryRecord[];
+  aiReflections: AiReflectionRecord[];
+  spotifyRecommendations: RecommendationRecord[];
+  savedPlaylists: Array<Omit<PlaylistRecord, "tracks" | "updatedAt"> & { tracks: IPlaylistTrack[]; updatedAt?: Date }>;
+}
+
+// What became of each step of a multi-document write. "rolled_back" steps
+// were written and then undone.
+export type WriteStepStatus = "succeeded" | "failed" | "rolled_back" | "skipped";
 
-  async getSavedPlaylists(): Promise<ISavedPlaylist[]> {
-    this.ensureConnection();
-    const docs = await SavedPlaylist.find().sort({ createdAt: -1 });
-    return docs.map(transformSavedPlaylist);
+export interface MoodEntryCreationSteps {
+  moodEntry: WriteStepStatus;
+  processingJob: WriteStepStatus;
+}
+
+// A multi-document write failed part way; steps tells what was kept
+export class PartialWriteError<Steps extends object = Record<string, WriteStepStatus>> extends Error {
+  constructor(message: string, public steps: Steps, cause: unknown) {
+    super(`${message}: ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+    this.name = "PartialWriteError";
   }
+}
 
-  // Additional helper methods
-  async getMoodEntryWithReflection(id: string): Promise<{ moodEntry: IMoodEntry; reflection: IAiReflection | null } | null> {
-    this.ensureConnection();
-    if (!mongoose.Types.ObjectId.isValid(id)) {
-      return null;
-    }
-    
-    const moodEntry = await MoodEntry.findById(id);
-    if (!moodEntry) {
-      return null;
-    }
-
-    const reflection = await AiReflection.findOne({ moodEntryId: new mongoose.Types.ObjectId(id) });
-    
-    return {
-      moodEntry: transformMoodEntry(moodEntry),
-      reflection: transformAiReflection(reflection)
-    };
+// A unique key (user email, idempotency key) is already taken
+export class DuplicateKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DuplicateKeyError";
   }
+}
+
+// Everything the routes and services persist. Methods taking a userId only
+// see and change that user's records; the job queue is shared by all users.
+export interface IStorage {
+  readonly name: StorageName;
 
-  async getMoodEntriesWithReflections(): Promise<Array<{ moodEntry: IMoodEntry; reflection: IAiReflection | null }>> {
-    this.ensureConnection();
-    const moodEntries = await MoodEntry.find().sort({ createdAt: -1 });
-    
-    const results = [];
-    for (const moodEntry of moodEntries) {
-      const reflection = await AiReflection.findOne({ moodEntryId: moodEntry._id });
-      results.push({
-        moodEntry: transformMoodEntry(moodEntry),
-        reflection: transformAiReflection(reflection)
-      });
-    }
-    
-    return results;
+  connect(): Promise<void>;
+  // Whether queries can be served right now
+  isConnected(): boolean;
+  checkHealth(): Promise<void>;
+
+  // Users. Emails are matched case-insensitively.
+  createUser(user: NewUser): Promise<UserRecord>;
+  getUser(id: RecordId): Promise<UserRecord | null>;
+  getUserByEmail(email: string): Promise<UserRecord | null>;
+
+  // Mood entries
+  // Stores the entry together with the job that analyzes it, or neither.
+  // Throws PartialWriteError with MoodEntryCreationSteps on failure.
+  createQueuedMoodEntry(userId: RecordId, entry: InsertMoodEntry): Promise<{
+    moodEntry: MoodEntryRecord;
+    job: MoodProcessingJobRecord;
+  }>;
+  getMoodEntry(userId: RecordId, id: RecordId): Promise<MoodEntryRecord | null>;
+  // The given entries that exist, belong to the user and match the filters
+  findMoodEntries(userId: RecordId, ids: RecordId[], filters?: MoodEntryFilters): Promise<MoodEntryRecord[]>;
+  listMoodEntries(userId: RecordId, query: MoodEntryPageQuery): Promise<MoodEntryRecord[]>;
+  updateMoodEntry(userId: RecordId, id: RecordId, changes: MoodEntryChanges): Promise<MoodEntryRecord | null>;
+  // Removes the entry with its reflection, recommendations and jobs, and
+  // takes it off the user's playlists
+  deleteMoodEntry(userId: RecordId, id: RecordId): Promise<boolean>;
+  // Full-text search in MongoDB $text syntax: words, "phrases" and -negations
+  searchMoodEntryText(userId: RecordId, search: string, filters: MoodEntryFilters, limit: number): Promise<TextSearchHit[]>;
+  getMoodTrends(userId: RecordId, query: MoodTrendQuery): Promise<MoodTrends>;
+
+  // Reflections and recommendations generated for an entry
+  getAiReflection(userId: RecordId, moodEntryId: RecordId): Promise<AiReflectionRecord | null>;
+  // The reflections of the given entries, for those that have one
+  findAiReflections(userId: RecordId, moodEntryIds: RecordId[]): Promise<AiReflectionRecord[]>;
+  replaceAiReflection(userId: RecordId, moodEntryId: RecordId, reflection: NewAiReflection): Promise<AiReflectionRecord>;
+  searchAiReflectionText(userId: RecordId, search: string, limit: number): Promise<Array<TextSearchHit & { content: string }>>;
+  getRecommendation(userId: RecordId, id: RecordId): Promise<RecommendationRecord | null>;
+  // In the order they were stored
+  getRecommendations(userId: RecordId, moodEntryId: RecordId): Promise<RecommendationRecord[]>;
+  replaceRecommendations(userId: RecordId, moodEntryId: RecordId, recommendations: NewRecommendation[]): Promise<RecommendationRecord[]>;
+  clearMoodInsights(userId: RecordId, moodEntryId: RecordId): Promise<void>;
+
+  // Saved playlists; updates bump updatedAt
+  createPlaylist(userId: RecordId, playlist: NewPlaylist): Promise<PlaylistRecord>;
+  // Newest first
+  getPlaylists(userId: RecordId): Promise<PlaylistRecord[]>;
+  getPlaylist(userId: RecordId, id: RecordId): Promise<PlaylistRecord | null>;
+  updatePlaylist(userId: RecordId, id: RecordId, changes: PlaylistChanges): Promise<PlaylistRecord | null>;
+  deletePlaylist(userId: RecordId, id: RecordId): Promise<boolean>;
+  // Track edits are single writes, so concurrent edits to one playlist are not
+  // lost. Each returns null when the playlist is not found.
+  // Inserts at the zero-based position, appending when it is omitted or past the end
+  addPlaylistTrack(userId: RecordId, id: RecordId, track: IPlaylistTrack, position?: number): Promise<PlaylistRecord | null>;
+  // Also null when the track is not on the playlist
+  removePlaylistTrack(userId: RecordId, id: RecordId, trackId: RecordId): Promise<PlaylistRecord | null>;
+  // Also null unless trackIds lists exactly the tracks on the playlist
+  reorderPlaylistTracks(userId: RecordId, id: RecordId, trackIds: RecordId[]): Promise<PlaylistRecord | null>;
+
+  // Background processing jobs, at most one of each type per entry and
+  // generation. Creating a second throws DuplicateKeyError.
+  createMoodProcessingJob(job: NewMoodProcessingJob): Promise<MoodProcessingJobRecord>;
+  // Returns the entry's job of this type and generation, creating it if there
+  // is none, so a retried step does not queue its follow-up twice
+  ensureMoodProcessingJob(job: NewMoodProcessingJob): Promise<MoodProcessingJobRecord>;
+  // Lock the oldest due job, or a running one whose lock is older than
+  // lockTimeoutMs, and count the attempt
+  claimMoodProcessingJob(now: Date, lockTimeoutMs: number): Promise<MoodProcessingJobRecord | null>;
+  updateMoodProcessingJob(id: RecordId, changes: MoodProcessingJobChanges): Promise<void>;
+  // Drops the entry's queued and running jobs
+  cancelMoodProcessingJobs(moodEntryId: RecordId): Promise<void>;
+  // Oldest first
+  getMoodProcessingJobs(moodEntryId: RecordId): Promise<MoodProcessingJobRecord[]>;
+
+  // Idempotency keys. Creating a key that exists throws DuplicateKeyError.
+  createIdempotencyKey(record: NewIdempotencyKey): Promise<IdempotencyKeyRecord>;
+  getIdempotencyKey(userId: RecordId, key: string): Promise<IdempotencyKeyRecord | null>;
+  // Applies the changes only while the key is still in the expected state;
+  // null when another request changed it first
+  replaceIdempotencyKey(
+    expected: Pick<IdempotencyKeyRecord, "_id" | "requestHash" | "status">,
+    changes: IdempotencyKeyChanges
+  ): Promise<IdempotencyKeyRecord | null>;
+  updateIdempotencyKey(id: RecordId, changes: IdempotencyKeyChanges): Promise<void>;
+  deleteIdempotencyKey(id: RecordId): Promise<void>;
+
+  // The whole journal, oldest first
+  getJournal(userId: RecordId): Promise<JournalRecords>;
+  // Writes every document or, on failure, none of them
+  importJournal(journal: JournalImport): Promise<void>;
+}
+
+export type StorageName = "mongo" | "memory";
+
+export function createStorage(): IStorage {
+  switch (config.storage) {
+    case "memory":
+      log.warn("Using in-memory storage. Data is lost when the process stops.");
+      return new MemoryStorage();
+
+    case "mongo":
+      return new MongoStorage();
   }
 }
 
-export const storage = new MongoStorage();
+export const storage: IStorage = createStorage();
+
+log.info("Using storage", { storage: storage.name });
@@ -1,3 +0,0 @@
-// Simple test to check if routes export works
-import { registerRoutes } from "./routes.js";
-console.log("Routes imported successfully:", typeof registerRoutes);
@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CircuitBreaker } from "../services/circuit-breaker";
+
+const RESET_TIMEOUT = 20;
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A breaker that has just opened after reaching its threshold
+function openBreaker() {
+  const breaker = new CircuitBreaker("test", { failureThreshold: 3, resetTimeoutMs: RESET_TIMEOUT });
+  for (let i = 0; i < 3; i++) {
+    breaker.recordFailure();
+  }
+  return breaker;
+}
+
+describe("CircuitBreaker", () => {
+  it("stays closed below the failure threshold", () => {
+    const breaker = new CircuitBreaker("test", { failureThreshold: 3, resetTimeoutMs: RESET_TIMEOUT });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    assert.equal(breaker.state, "closed");
+    assert.equal(breaker.tryAcquire(), true);
+
+    // A success in between starts the count over
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    assert.equal(breaker.state, "closed");
+  });
+
+  it("opens after the failure threshold and turns requests away", () => {
+    const breaker = openBreaker();
+    assert.equal(breaker.state, "open");
+    assert.equal(breaker.tryAcquire(), false);
+    assert.ok(breaker.retryAfterMs > 0 && breaker.retryAfterMs <= RESET_TIMEOUT);
+  });
+
+  it("lets a single trial request through once the reset timeout passes", async () => {
+    const breaker = openBreaker();
+    await sleep(RESET_TIMEOUT + 5);
+
+    assert.equal(breaker.state, "half-open");
+    assert.equal(breaker.retryAfterMs, 0);
+    assert.equal(breaker.tryAcquire(), true);
+    assert.equal(breaker.tryAcquire(), false);
+    assert.equal(breaker.tryAcquire(), false);
+  });
+
+  it("closes when the trial succeeds", async () => {
+    const breaker = openBreaker();
+    await sleep(RESET_TIMEOUT + 5);
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    assert.equal(breaker.state, "closed");
+    assert.equal(breaker.tryAcquire(), true);
+    assert.equal(breaker.tryAcquire(), true);
+  });
+
+  it("reopens when the trial fails", async () => {
+    const breaker = openBreaker();
+    await sleep(RESET_TIMEOUT + 5);
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    assert.equal(breaker.state, "open");
+    assert.equal(breaker.tryAcquire(), false);
+
+    await sleep(RESET_TIMEOUT + 5);
+    assert.equal(breaker.tryAcquire(), true);
+  });
+});
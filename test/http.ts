@@ -0,0 +1,32 @@
+import type { AddressInfo } from "net";
+import { createServer, type Server } from "http";
+import express, { type Express } from "express";
+
+// An app that treats every request as signed in as the user named in the
+// X-Test-User header, the way requireAuth and the session would
+export function testApp(): Express {
+  const app = express();
+  app.set("trust proxy", true);
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    const userId = req.get("X-Test-User");
+    req.session = (userId ? { userId } : {}) as typeof req.session;
+    next();
+  });
+  return app;
+}
+
+export interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+export async function listen(app: Express): Promise<TestServer> {
+  const server: Server = createServer(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import mongoose from "mongoose";
+import { idempotency } from "../idempotency";
+import { testApp, listen, type TestServer } from "./http";
+
+// Keys belong to stored users, so user ids must be valid ObjectIds
+const userId = new mongoose.Types.ObjectId().toString();
+const otherUserId = new mongoose.Types.ObjectId().toString();
+
+describe("idempotency", () => {
+  let server: TestServer;
+  let calls = 0;
+  let failNext = false;
+  let limitNext = false;
+  let release: (() => void) | null = null;
+
+  before(async () => {
+    const app = testApp();
+    app.post("/things", idempotency, async (req, res) => {
+      calls++;
+      if (req.body.slow) {
+        await new Promise<void>(resolve => { release = resolve; });
+      }
+      if (limitNext) {
+        limitNext = false;
+        return res.status(429).json({ message: "Daily limit reached" });
+      }
+      if (failNext) {
+        failNext = false;
+        return res.status(500).json({ message: "Failed" });
+      }
+      res.status(201).json({ call: calls, name: req.body.name });
+    });
+    server = await listen(app);
+  });
+
+  after(() => server.close());
+
+  const post = (body: object, headers: Record<string, string> = {}) => fetch(`${server.url}/things`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Test-User": userId, ...headers },
+    body: JSON.stringify(body),
+  });
+
+  it("runs every request without a key", async () => {
+    const callsBefore = calls;
+    await post({ name: "a" });
+    await post({ name: "a" });
+    assert.equal(calls, callsBefore + 2);
+  });
+
+  it("replays the first response to a repeated key", async () => {
+    const key = randomUUID();
+    const first = await post({ name: "a" }, { "Idempotency-Key": key });
+    const callsAfterFirst = calls;
+    const second = await post({ name: "a" }, { "Idempotency-Key": key });
+
+    assert.equal(first.status, 201);
+    assert.equal(second.status, 201);
+    assert.equal(second.headers.get("Idempotent-Replayed"), "true");
+    assert.deepEqual(await second.json(), await first.json());
+    assert.equal(calls, callsAfterFirst);
+  });
+
+  it("rejects a key reused for a different request", async () => {
+    const key = randomUUID();
+    await post({ name: "a" }, { "Idempotency-Key": key });
+    const reused = await post({ name: "b" }, { "Idempotency-Key": key });
+    assert.equal(reused.status, 422);
+  });
+
+  it("scopes keys to the user", async () => {
+    const key = randomUUID();
+    await post({ name: "a" }, { "Idempotency-Key": key });
+    const other = await post({ name: "a" }, { "Idempotency-Key": key, "X-Test-User": otherUserId });
+    assert.equal(other.status, 201);
+    assert.equal(other.headers.get("Idempotent-Replayed"), null);
+  });
+
+  it("lets a request that failed with a server error be retried", async () => {
+    const key = randomUUID();
+    failNext = true;
+    const failed = await post({ name: "a" }, { "Idempotency-Key": key });
+    const retried = await post({ name: "a" }, { "Idempotency-Key": key });
+
+    assert.equal(failed.status, 500);
+    assert.equal(retried.status, 201);
+    assert.equal(retried.headers.get("Idempotent-Replayed"), null);
+  });
+
+  it("lets a request turned away by a limit be retried", async () => {
+    const key = randomUUID();
+    limitNext = true;
+    const limited = await post({ name: "a" }, { "Idempotency-Key": key });
+    const retried = await post({ name: "a" }, { "Idempotency-Key": key });
+
+    assert.equal(limited.status, 429);
+    assert.equal(retried.status, 201);
+    assert.equal(retried.headers.get("Idempotent-Replayed"), null);
+  });
+
+  it("turns away a repeat while the first request is still running", async () => {
+    const key = randomUUID();
+    const first = post({ name: "a", slow: true }, { "Idempotency-Key": key });
+    while (!release) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    const concurrent = await post({ name: "a", slow: true }, { "Idempotency-Key": key });
+    assert.equal(concurrent.status, 409);
+
+    release();
+    release = null;
+    assert.equal((await first).status, 201);
+  });
+
+  it("rejects overlong keys", async () => {
+    const response = await post({ name: "a" }, { "Idempotency-Key": "k".repeat(256) });
+    assert.equal(response.status, 400);
+  });
+});
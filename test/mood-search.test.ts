@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildSnippet, type SearchSnippet } from "../services/mood-search";
+
+// The highlighted substrings of a snippet
+const highlighted = (snippet: SearchSnippet | null) =>
+  snippet?.highlights.map(([start, end]) => snippet.text.slice(start, end));
+
+describe("buildSnippet", () => {
+  it("highlights every match in short content, with word endings", () => {
+    const snippet = buildSnippet("Walked the dog, then walking again felt calm.", ["walk", "calm"]);
+    assert.equal(snippet?.text, "Walked the dog, then walking again felt calm.");
+    assert.deepEqual(snippet?.highlights, [[0, 6], [21, 28], [40, 44]]);
+    assert.deepEqual(highlighted(snippet), ["Walked", "walking", "calm"]);
+  });
+
+  it("shifts offsets past the leading ellipsis of a trimmed window", () => {
+    const content = `${"filler ".repeat(20)}felt anxious before the meeting ${"more ".repeat(20)}`;
+    const snippet = buildSnippet(content, ["anxious"]);
+
+    assert.ok(snippet?.text.startsWith("…"));
+    assert.ok(snippet?.text.endsWith("…"));
+    assert.deepEqual(highlighted(snippet), ["anxious"]);
+    // Trimmed to word boundaries on both sides
+    assert.match(snippet!.text, /^…filler /);
+    assert.match(snippet!.text, / more…$/);
+  });
+
+  it("leaves out matches that fall outside the window", () => {
+    const content = `tired in the morning ${"word ".repeat(40)}tired at night`;
+    const snippet = buildSnippet(content, ["tired"]);
+    assert.deepEqual(highlighted(snippet), ["tired"]);
+    assert.equal(snippet?.highlights[0][0], 0);
+  });
+
+  it("matches phrases across whitespace and escapes regex characters", () => {
+    const snippet = buildSnippet("So   happy today, learning c++ and c.", ["so happy", "c++"]);
+    assert.deepEqual(highlighted(snippet), ["So   happy", "c++"]);
+  });
+
+  it("returns null without terms or matches", () => {
+    assert.equal(buildSnippet("Nothing here", []), null);
+    assert.equal(buildSnippet("Nothing here", ["calm"]), null);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { renderM3u, renderXspf, renderCsv, exportFilename, type ExportPlaylist } from "../services/playlist-export";
+import { parseCsv } from "../services/csv";
+
+const SPOTIFY_ID = "4uLU6hMCjMI75M1A2tKUQC";
+
+const playlist: ExportPlaylist = {
+  title: "Rock & <Roll>\nNight",
+  description: `"Loud" songs for 'late' nights`,
+  tracks: [
+    {
+      spotifyTrackId: SPOTIFY_ID,
+      trackName: "Don't Stop <Me> Now",
+      artistName: "Queen & Friends",
+      albumImageUrl: "https://images.example/cover.jpg?size=64&format=png",
+      previewUrl: null,
+    },
+    {
+      spotifyTrackId: "local-42",
+      trackName: "=SUM(A1:A2), \"quoted\"",
+      artistName: "Line\r\nBreak",
+      previewUrl: "https://previews.example/local-42.mp3",
+    },
+    {
+      spotifyTrackId: "local-43",
+      trackName: "Unplayable",
+      artistName: "Nobody",
+    },
+  ],
+};
+
+describe("renderM3u", () => {
+  it("keeps every title on one line and points at something playable", () => {
+    const lines = renderM3u(playlist).split("\n");
+    assert.deepEqual(lines, [
+      "#EXTM3U",
+      "#PLAYLIST:Rock & <Roll> Night",
+      "#EXTINF:-1,Queen & Friends - Don't Stop <Me> Now",
+      `https://open.spotify.com/track/${SPOTIFY_ID}`,
+      "#EXTINF:-1,Line Break - =SUM(A1:A2), \"quoted\"",
+      "https://previews.example/local-42.mp3",
+      "#EXTINF:-1,Nobody - Unplayable",
+      "# local-43",
+      "",
+    ]);
+  });
+});
+
+describe("renderXspf", () => {
+  const xspf = renderXspf(playlist);
+
+  it("escapes markup in titles, annotations and URLs", () => {
+    assert.ok(xspf.includes("<title>Rock &amp; &lt;Roll&gt;\nNight</title>"));
+    assert.ok(xspf.includes("<annotation>&quot;Loud&quot; songs for &apos;late&apos; nights</annotation>"));
+    assert.ok(xspf.includes("<title>Don&apos;t Stop &lt;Me&gt; Now</title>"));
+    assert.ok(xspf.includes("<creator>Queen &amp; Friends</creator>"));
+    assert.ok(xspf.includes("<image>https://images.example/cover.jpg?size=64&amp;format=png</image>"));
+    assert.ok(!/&(?!amp;|lt;|gt;|quot;|apos;)/.test(xspf));
+  });
+
+  it("only gives Spotify tracks a Spotify identifier", () => {
+    assert.equal(xspf.match(/<identifier>/g)?.length, 1);
+    assert.ok(xspf.includes(`<identifier>spotify:track:${SPOTIFY_ID}</identifier>`));
+    assert.equal(xspf.match(/<location>/g)?.length, 2);
+  });
+});
+
+describe("renderCsv", () => {
+  it("quotes delimiters and defuses formulas so the rows read back intact", () => {
+    const rows = parseCsv(renderCsv(playlist));
+    assert.deepEqual(rows, [
+      ["position", "track_name", "artist_name", "spotify_uri", "spotify_track_id", "preview_url"],
+      ["1", "Don't Stop <Me> Now", "Queen & Friends", `spotify:track:${SPOTIFY_ID}`, SPOTIFY_ID, ""],
+      ["2", "'=SUM(A1:A2), \"quoted\"", "Line\r\nBreak", "", "local-42", "https://previews.example/local-42.mp3"],
+      ["3", "Unplayable", "Nobody", "", "local-43", ""],
+    ]);
+  });
+});
+
+describe("exportFilename", () => {
+  it("slugs the title and falls back for titles without letters", () => {
+    assert.equal(exportFilename("Rock & <Roll> Night", "m3u"), "rock-roll-night.m3u8");
+    assert.equal(exportFilename("???", "csv"), "playlist.csv");
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { MemoryRateLimitStore, rateLimit, dailyQuota } from "../rate-limit";
+import { testApp, listen, type TestServer } from "./http";
+
+describe("MemoryRateLimitStore", () => {
+  it("allows a burst up to capacity, then asks the client to wait", async () => {
+    const store = new MemoryRateLimitStore();
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      results.push(await store.take("bucket", 2, 1));
+    }
+
+    assert.deepEqual(results.map(result => result.allowed), [true, true, false]);
+    assert.equal(results[1].remaining, 0);
+    assert.ok(results[2].retryAfterMs > 0 && results[2].retryAfterMs <= 1000);
+  });
+
+  it("counts until the counter expires", async () => {
+    const store = new MemoryRateLimitStore();
+    const expiresAt = new Date(Date.now() + 60_000);
+    assert.equal(await store.increment("counter", expiresAt), 1);
+    assert.equal(await store.increment("counter", expiresAt), 2);
+    await store.decrement("counter");
+    assert.equal(await store.increment("counter", expiresAt), 2);
+
+    assert.equal(await store.increment("expired", new Date(Date.now() - 1)), 1);
+    assert.equal(await store.increment("expired", new Date(Date.now() + 60_000)), 1);
+  });
+});
+
+describe("rateLimit", () => {
+  let server: TestServer;
+  const name = `test-${randomUUID()}`;
+
+  before(async () => {
+    const app = testApp();
+    app.get("/limited", rateLimit({ name, capacity: 2, refillPerMinute: 1 }), (_req, res) => {
+      res.json({ ok: true });
+    });
+    server = await listen(app);
+  });
+
+  after(() => server.close());
+
+  const get = (headers: Record<string, string>) => fetch(`${server.url}/limited`, { headers });
+
+  it("limits each client IP", async () => {
+    const headers = { "X-Forwarded-For": "10.0.0.1" };
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await get(headers)).status);
+    }
+    assert.deepEqual(statuses, [200, 200, 429]);
+
+    const limited = await get(headers);
+    assert.equal(limited.headers.get("RateLimit-Remaining"), "0");
+    assert.ok(Number(limited.headers.get("Retry-After")) >= 1);
+
+    assert.equal((await get({ "X-Forwarded-For": "10.0.0.2" })).status, 200);
+  });
+
+  it("limits a signed-in user across IPs", async () => {
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await get({ "X-Forwarded-For": `10.0.1.${i}`, "X-Test-User": "user-1" })).status);
+    }
+    assert.deepEqual(statuses, [200, 200, 429]);
+  });
+});
+
+describe("dailyQuota", () => {
+  let server: TestServer;
+
+  before(async () => {
+    const app = testApp();
+    const quota = dailyQuota({ name: `test-${randomUUID()}`, limit: 2, when: req => req.query.free === undefined });
+    app.post("/ai", quota, (req, res) => {
+      if (req.body.invalid) {
+        return res.status(400).json({ message: "Invalid" });
+      }
+      res.json({ ok: true });
+    });
+    server = await listen(app);
+  });
+
+  after(() => server.close());
+
+  const post = (userId: string, body: object = {}, query = "") => fetch(`${server.url}/ai${query}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Test-User": userId },
+    body: JSON.stringify(body),
+  });
+
+  it("stops a user at the daily limit until midnight UTC", async () => {
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await post("quota-user")).status);
+    }
+    assert.deepEqual(statuses, [200, 200, 429]);
+
+    const limited = await post("quota-user");
+    const secondsToMidnight = Math.ceil((new Date().setUTCHours(24, 0, 0, 0) - Date.now()) / 1000);
+    assert.ok(Math.abs(Number(limited.headers.get("Retry-After")) - secondsToMidnight) <= 2);
+
+    assert.equal((await post("another-user")).status, 200);
+  });
+
+  it("refunds requests the handler rejects with a 4xx", async () => {
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await post("refund-user", { invalid: true })).status, 400);
+    }
+    // Refunds land once the response has finished
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    assert.equal((await post("refund-user")).status, 200);
+    assert.equal((await post("refund-user")).status, 200);
+    assert.equal((await post("refund-user")).status, 429);
+  });
+
+  it("skips requests the predicate leaves out", async () => {
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await post("free-user", {}, "?free")).status, 200);
+    }
+    assert.equal((await post("free-user")).status, 200);
+  });
+});
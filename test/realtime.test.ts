@@ -0,0 +1,59 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, request, type Server } from "http";
+import type { AddressInfo } from "net";
+import { attachMoodFeed, MOOD_FEED_PATH } from "../realtime";
+
+describe("mood feed upgrades", () => {
+  let server: Server;
+  let port: number;
+
+  before(async () => {
+    server = createServer();
+    attachMoodFeed(server);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  // Status the server answers a WebSocket upgrade with
+  const upgrade = (headers: Record<string, string>, path = MOOD_FEED_PATH) => new Promise<number>((resolve, reject) => {
+    const req = request({
+      host: "127.0.0.1",
+      port,
+      path,
+      headers: {
+        Connection: "Upgrade",
+        Upgrade: "websocket",
+        "Sec-WebSocket-Version": "13",
+        "Sec-WebSocket-Key": "dGhlIHNhbXBsZSBub25jZQ==",
+        ...headers,
+      },
+    });
+    req.on("response", response => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    req.on("upgrade", (_response, socket) => {
+      socket.destroy();
+      resolve(101);
+    });
+    req.on("error", reject);
+    req.end();
+  });
+
+  it("turns away pages on other origins, including other vercel.app hosts", async () => {
+    assert.equal(await upgrade({ Origin: "https://evil.example" }), 403);
+    assert.equal(await upgrade({ Origin: "https://evil.vercel.app" }), 403);
+    assert.equal(await upgrade({ Origin: "https://mood-tune-attacker.vercel.app" }), 403);
+  });
+
+  it("asks the client's own origin to sign in", async () => {
+    assert.equal(await upgrade({ Origin: "http://localhost:5173" }), 401);
+  });
+
+  it("only serves the feed path", async () => {
+    assert.equal(await upgrade({}, "/elsewhere"), 404);
+  });
+});
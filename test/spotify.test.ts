@@ -0,0 +1,111 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+
+// Config is read on import, so credentials and a single retry are set first
+process.env.SPOTIFY_CLIENT_ID = "test-client";
+process.env.SPOTIFY_CLIENT_SECRET = "test-secret";
+process.env.SPOTIFY_MAX_RETRIES = "1";
+const { CatalogUnavailableError } = await import("../services/catalog");
+const { SpotifyService, parseRetryAfter } = await import("../services/spotify");
+
+type Reply = { status: number; headers?: Record<string, string>; body?: unknown };
+
+describe("parseRetryAfter", () => {
+  it("reads delay-seconds", () => {
+    assert.equal(parseRetryAfter("3"), 3000);
+    assert.equal(parseRetryAfter("0"), 0);
+  });
+
+  it("reads an HTTP date", () => {
+    const delay = parseRetryAfter(new Date(Date.now() + 30_000).toUTCString());
+    assert.ok(delay !== null && delay > 28_000 && delay <= 30_000);
+    assert.equal(parseRetryAfter(new Date(Date.now() - 30_000).toUTCString()), 0);
+  });
+
+  it("ignores a missing or unreadable header", () => {
+    assert.equal(parseRetryAfter(null), null);
+    assert.equal(parseRetryAfter(""), null);
+    assert.equal(parseRetryAfter("soon"), null);
+  });
+});
+
+describe("SpotifyService requests", () => {
+  const realFetch = globalThis.fetch;
+  let replies: Reply[];
+  let apiCalls: number;
+
+  // Answers token requests with a token and API requests from replies in order
+  beforeEach(() => {
+    replies = [];
+    apiCalls = 0;
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const url = String(input);
+      if (url.startsWith("https://accounts.spotify.com/")) {
+        return Response.json({ access_token: "token", token_type: "Bearer", expires_in: 3600 });
+      }
+      apiCalls++;
+      const reply = replies.shift() ?? { status: 200, body: { tracks: [] } };
+      return Response.json(reply.body ?? {}, { status: reply.status, headers: reply.headers });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it("retries when Spotify asks to wait briefly", async () => {
+    const spotify = new SpotifyService();
+    replies.push(
+      { status: 429, headers: { "Retry-After": "0" } },
+      { status: 200, body: { tracks: [{ id: "track-1" }] } },
+    );
+
+    const tracks = await spotify.getTracks(["track-1"]);
+    assert.deepEqual(tracks, [{ id: "track-1" }]);
+    assert.equal(apiCalls, 2);
+  });
+
+  it("backs off before retrying a server error", async () => {
+    const spotify = new SpotifyService();
+    replies.push({ status: 503 }, { status: 503 });
+
+    const start = Date.now();
+    await assert.rejects(spotify.getTracks(["track-1"]), CatalogUnavailableError);
+    assert.ok(Date.now() - start >= 500);
+    assert.equal(apiCalls, 2);
+  });
+
+  it("fails fast when Retry-After is longer than it is worth waiting", async () => {
+    const spotify = new SpotifyService();
+    replies.push({ status: 429, headers: { "Retry-After": "60" } });
+
+    const start = Date.now();
+    await assert.rejects(spotify.getTracks(["track-1"]), (error: unknown) => {
+      assert.ok(error instanceof CatalogUnavailableError);
+      assert.equal(error.retryAfterMs, 60_000);
+      return true;
+    });
+    assert.ok(Date.now() - start < 1000);
+    assert.equal(apiCalls, 1);
+  });
+
+  it("stops calling an endpoint once its circuit opens", async () => {
+    const spotify = new SpotifyService();
+    for (let i = 0; i < 5; i++) {
+      replies.push({ status: 429, headers: { "Retry-After": "60" } });
+      await assert.rejects(spotify.getTracks([`track-${i}`]), CatalogUnavailableError);
+    }
+    assert.equal(apiCalls, 5);
+
+    await assert.rejects(spotify.getTracks(["track-5"]), (error: unknown) => {
+      assert.ok(error instanceof CatalogUnavailableError);
+      assert.ok(error.retryAfterMs !== null && error.retryAfterMs > 0);
+      return true;
+    });
+    assert.equal(apiCalls, 5);
+
+    // Circuits are per endpoint
+    assert.deepEqual(await spotify.searchTracks("calm"), []);
+    assert.equal(apiCalls, 6);
+  });
+});
@@ -0,0 +1,323 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import mongoose from "mongoose";
+import { DuplicateKeyError, type IStorage } from "../storage";
+import type { IPlaylistTrack } from "../models";
+import type { InsertMoodEntry } from "../schema";
+
+const entry = (overrides: Partial<InsertMoodEntry> = {}): InsertMoodEntry => ({
+  text: "Calm evening after a long walk",
+  emoji: "😌",
+  quickMood: "calm",
+  energy: 4,
+  valence: 7,
+  ...overrides,
+});
+
+const track = (name: string): IPlaylistTrack => ({
+  spotifyTrackId: `local:${name}`,
+  trackName: name,
+  artistName: "Artist",
+  albumImageUrl: null,
+  previewUrl: null,
+  energy: null,
+  valence: null,
+  source: "catalog",
+  recommendationId: null,
+});
+
+const ids = (records: Array<{ _id: unknown }>) => records.map(record => String(record._id));
+
+// Behaviour every IStorage implementation must share. makeStorage is called
+// before each test and must return an empty store.
+export function describeStorageContract(name: string, makeStorage: () => IStorage | Promise<IStorage>) {
+  describe(`${name} storage`, () => {
+    let storage: IStorage;
+    let userId: string;
+    let otherUserId: string;
+
+    beforeEach(async () => {
+      storage = await makeStorage();
+      userId = String((await storage.createUser({ email: "ada@example.com", passwordHash: "x", displayName: null }))._id);
+      otherUserId = String((await storage.createUser({ email: "bob@example.com", passwordHash: "x", displayName: null }))._id);
+    });
+
+    describe("users", () => {
+      it("matches emails case-insensitively", async () => {
+        const user = await storage.getUserByEmail("ADA@Example.com");
+        assert.equal(String(user?._id), userId);
+      });
+
+      it("rejects a second account for the same email", async () => {
+        await assert.rejects(
+          storage.createUser({ email: "Ada@example.com", passwordHash: "y", displayName: null }),
+          DuplicateKeyError
+        );
+      });
+    });
+
+    describe("mood entries", () => {
+      it("stores an entry together with its analyze job", async () => {
+        const { moodEntry, job } = await storage.createQueuedMoodEntry(userId, entry());
+        assert.equal(moodEntry.processingStatus, "pending");
+        assert.equal(job.type, "analyze");
+        assert.equal(job.status, "queued");
+        assert.equal(String(job.moodEntryId), String(moodEntry._id));
+      });
+
+      it("only shows entries to their owner", async () => {
+        const { moodEntry } = await storage.createQueuedMoodEntry(userId, entry());
+        assert.equal(await storage.getMoodEntry(otherUserId, moodEntry._id), null);
+        assert.equal(await storage.updateMoodEntry(otherUserId, moodEntry._id, { energy: 9 }), null);
+        assert.equal(await storage.deleteMoodEntry(otherUserId, moodEntry._id), false);
+        assert.ok(await storage.getMoodEntry(userId, moodEntry._id));
+      });
+
+      it("accepts ids in any case", async () => {
+        const { moodEntry } = await storage.createQueuedMoodEntry(userId, entry());
+        const found = await storage.getMoodEntry(userId, String(moodEntry._id).toUpperCase());
+        assert.equal(String(found?._id), String(moodEntry._id));
+      });
+
+      it("treats malformed ids as not found", async () => {
+        assert.equal(await storage.getMoodEntry(userId, "not-an-id"), null);
+      });
+
+      it("lists entries newest first and pages past a cursor", async () => {
+        for (const text of ["first", "second", "third"]) {
+          await storage.createQueuedMoodEntry(userId, entry({ text }));
+        }
+        await storage.createQueuedMoodEntry(otherUserId, entry({ text: "someone else" }));
+
+        const page = await storage.listMoodEntries(userId, { sort: "newest", limit: 2 });
+        assert.deepEqual(page.map(item => item.text), ["third", "second"]);
+
+        const last = page[page.length - 1];
+        const next = await storage.listMoodEntries(userId, {
+          sort: "newest",
+          limit: 2,
+          after: { createdAt: last.createdAt, id: last._id },
+        });
+        assert.deepEqual(next.map(item => item.text), ["first"]);
+      });
+
+      it("filters listed entries", async () => {
+        await storage.createQueuedMoodEntry(userId, entry({ text: "low", energy: 2 }));
+        await storage.createQueuedMoodEntry(userId, entry({ text: "high", energy: 9 }));
+        const high = await storage.listMoodEntries(userId, { sort: "oldest", limit: 10, minEnergy: 5 });
+        assert.deepEqual(high.map(item => item.text), ["high"]);
+      });
+
+      it("deletes an entry with its insights and jobs and takes it off playlists", async () => {
+        const { moodEntry } = await storage.createQueuedMoodEntry(userId, entry());
+        await storage.replaceAiReflection(userId, moodEntry._id, {
+          content: "Sounds peaceful",
+          dominantEmotions: ["calm"],
+          suggestedGenres: ["ambient"],
+          estimatedEnergy: 4,
+          estimatedValence: 7,
+          usedFallback: false,
+          model: "test",
+          promptVersion: null,
+        });
+        const playlist = await storage.createPlaylist(userId, {
+          name: "Evening",
+          description: null,
+          moodEntryIds: [moodEntry._id],
+          tracks: [],
+        });
+
+        assert.equal(await storage.deleteMoodEntry(userId, moodEntry._id), true);
+        assert.equal(await storage.getMoodEntry(userId, moodEntry._id), null);
+        assert.equal(await storage.getAiReflection(userId, moodEntry._id), null);
+        assert.deepEqual(await storage.getMoodProcessingJobs(moodEntry._id), []);
+        assert.deepEqual((await storage.getPlaylist(userId, playlist._id))?.moodEntryIds, []);
+      });
+    });
+
+    describe("reflections and recommendations", () => {
+      it("replaces an entry's reflection rather than adding another", async () => {
+        const { moodEntry } = await storage.createQueuedMoodEntry(userId, entry());
+        const reflection = {
+          dominantEmotions: ["calm"],
+          suggestedGenres: ["ambient"],
+          estimatedEnergy: 4,
+          estimatedValence: 7,
+          usedFallback: false,
+          model: "test",
+          promptVersion: null,
+        };
+        await storage.replaceAiReflection(userId, moodEntry._id, { ...reflection, content: "First" });
+        await storage.replaceAiReflection(userId, moodEntry._id, { ...reflection, content: "Second" });
+
+        const found = await storage.findAiReflections(userId, [moodEntry._id]);
+        assert.deepEqual(found.map(item => item.content), ["Second"]);
+      });
+
+      it("clears an entry's insights", async () => {
+        const { moodEntry } = await storage.createQueuedMoodEntry(userId, entry());
+        await storage.replaceRecommendations(userId, moodEntry._id, [{
+          spotifyTrackId: "local:one",
+          trackName: "One",
+          artistName: "Artist",
+          albumImageUrl: null,
+          previewUrl: null,
+          energy: 0.5,
+          valence: 0.5,
+        }]);
+        assert.equal((await storage.getRecommendations(userId, moodEntry._id)).length, 1);
+
+        await storage.clearMoodInsights(userId, moodEntry._id);
+        assert.deepEqual(await storage.getRecommendations(userId, moodEntry._id), []);
+      });
+    });
+
+    describe("playlist tracks", () => {
+      const createPlaylist = () => storage.createPlaylist(userId, {
+        name: "Mix",
+        description: null,
+        moodEntryIds: [],
+        tracks: [track("one"), track("two")],
+      });
+
+      it("inserts a track at a position or appends it", async () => {
+        const playlist = await createPlaylist();
+        let updated = await storage.addPlaylistTrack(userId, playlist._id, track("first"), 0);
+        updated = await storage.addPlaylistTrack(userId, playlist._id, track("last"), 99);
+        updated = await storage.addPlaylistTrack(userId, playlist._id, track("appended"));
+        assert.deepEqual(updated?.tracks.map(item => item.trackName), ["first", "one", "two", "last", "appended"]);
+        assert.ok(updated?.tracks.every(item => item._id && item.addedAt));
+      });
+
+      it("keeps every track when adds run concurrently", async () => {
+        const playlist = await createPlaylist();
+        await Promise.all(["a", "b", "c"].map(name => storage.addPlaylistTrack(userId, playlist._id, track(name))));
+        const updated = await storage.getPlaylist(userId, playlist._id);
+        assert.equal(updated?.tracks.length, 5);
+      });
+
+      it("removes a track by id in any case", async () => {
+        const playlist = await createPlaylist();
+        const [first] = playlist.tracks;
+        const updated = await storage.removePlaylistTrack(userId, playlist._id, String(first._id).toUpperCase());
+        assert.deepEqual(updated?.tracks.map(item => item.trackName), ["two"]);
+        assert.equal(await storage.removePlaylistTrack(userId, playlist._id, first._id), null);
+      });
+
+      it("reorders only when given exactly the current tracks", async () => {
+        const playlist = await createPlaylist();
+        const [one, two] = playlist.tracks;
+
+        const updated = await storage.reorderPlaylistTracks(userId, playlist._id, [two._id, one._id]);
+        assert.deepEqual(updated?.tracks.map(item => item.trackName), ["two", "one"]);
+        assert.deepEqual(ids(updated?.tracks ?? []), ids([two, one]));
+
+        assert.equal(await storage.reorderPlaylistTracks(userId, playlist._id, [two._id]), null);
+        assert.equal(await storage.reorderPlaylistTracks(userId, playlist._id, [two._id, two._id]), null);
+
+        await storage.addPlaylistTrack(userId, playlist._id, track("three"));
+        assert.equal(await storage.reorderPlaylistTracks(userId, playlist._id, [one._id, two._id]), null);
+      });
+
+      it("leaves other users' playlists alone", async () => {
+        const playlist = await createPlaylist();
+        assert.equal(await storage.addPlaylistTrack(otherUserId, playlist._id, track("intruder")), null);
+        assert.equal(await storage.removePlaylistTrack(otherUserId, playlist._id, playlist.tracks[0]._id), null);
+        assert.equal((await storage.getPlaylist(userId, playlist._id))?.tracks.length, 2);
+      });
+    });
+
+    describe("processing jobs", () => {
+      it("claims due jobs once and counts the attempt", async () => {
+        const { job } = await storage.createQueuedMoodEntry(userId, entry());
+        const now = new Date(Date.now() + 1000);
+
+        const claimed = await storage.claimMoodProcessingJob(now, 60_000);
+        assert.equal(String(claimed?._id), String(job._id));
+        assert.equal(claimed?.status, "running");
+        assert.equal(claimed?.attempts, 1);
+        assert.equal(await storage.claimMoodProcessingJob(now, 60_000), null);
+      });
+
+      it("reclaims a running job whose lock went stale", async () => {
+        await storage.createQueuedMoodEntry(userId, entry());
+        const now = new Date(Date.now() + 1000);
+        await storage.claimMoodProcessingJob(now, 60_000);
+
+        const reclaimed = await storage.claimMoodProcessingJob(new Date(now.getTime() + 120_000), 60_000);
+        assert.equal(reclaimed?.attempts, 2);
+      });
+
+      it("ensures at most one job per entry, type and generation", async () => {
+        const { moodEntry } = await storage.createQueuedMoodEntry(userId, entry());
+        const job = { userId, moodEntryId: moodEntry._id, type: "recommend" as const, suggestedGenres: ["jazz"] };
+
+        const first = await storage.ensureMoodProcessingJob(job);
+        const again = await storage.ensureMoodProcessingJob(job);
+        const nextGeneration = await storage.ensureMoodProcessingJob({ ...job, generation: 1 });
+
+        assert.equal(String(again._id), String(first._id));
+        assert.notEqual(String(nextGeneration._id), String(first._id));
+        assert.deepEqual(first.suggestedGenres, ["jazz"]);
+        assert.equal((await storage.getMoodProcessingJobs(moodEntry._id)).length, 3);
+      });
+
+      it("refuses a second job of the same type and generation", async () => {
+        const { moodEntry } = await storage.createQueuedMoodEntry(userId, entry());
+        await assert.rejects(
+          storage.createMoodProcessingJob({ userId, moodEntryId: moodEntry._id, type: "analyze" }),
+          DuplicateKeyError
+        );
+        await storage.createMoodProcessingJob({ userId, moodEntryId: moodEntry._id, type: "analyze", generation: 1 });
+      });
+
+      it("cancels queued and running jobs but keeps finished ones", async () => {
+        const { moodEntry, job } = await storage.createQueuedMoodEntry(userId, entry());
+        await storage.updateMoodProcessingJob(job._id, { status: "completed" });
+        await storage.createMoodProcessingJob({ userId, moodEntryId: moodEntry._id, type: "recommend" });
+
+        await storage.cancelMoodProcessingJobs(moodEntry._id);
+        const remaining = await storage.getMoodProcessingJobs(moodEntry._id);
+        assert.deepEqual(ids(remaining), ids([job]));
+      });
+    });
+
+    describe("idempotency keys", () => {
+      const newKey = (key: string) => ({
+        userId,
+        key,
+        requestHash: "hash",
+        expiresAt: new Date(Date.now() + 60_000),
+      });
+
+      it("rejects a key the user already has", async () => {
+        await storage.createIdempotencyKey(newKey("k1"));
+        await assert.rejects(storage.createIdempotencyKey(newKey("k1")), DuplicateKeyError);
+        await storage.createIdempotencyKey({ ...newKey("k1"), userId: otherUserId });
+      });
+
+      it("replaces a key only while it is in the expected state", async () => {
+        const record = await storage.createIdempotencyKey(newKey("k2"));
+        const replaced = await storage.replaceIdempotencyKey(record, { requestHash: "other" });
+        assert.equal(replaced?.requestHash, "other");
+        assert.equal(await storage.replaceIdempotencyKey(record, { requestHash: "third" }), null);
+      });
+
+      it("forgets deleted keys", async () => {
+        const record = await storage.createIdempotencyKey(newKey("k3"));
+        await storage.deleteIdempotencyKey(record._id);
+        assert.equal(await storage.getIdempotencyKey(userId, "k3"), null);
+      });
+    });
+
+    describe("journal", () => {
+      it("exports only the user's own records", async () => {
+        await storage.createQueuedMoodEntry(userId, entry({ text: "mine" }));
+        await storage.createQueuedMoodEntry(otherUserId, entry({ text: "theirs" }));
+        const journal = await storage.getJournal(userId);
+        assert.deepEqual(journal.moodEntries.map(item => item.text), ["mine"]);
+        assert.ok(journal.moodEntries.every(item => item.userId instanceof mongoose.Types.ObjectId));
+      });
+    });
+  });
+}
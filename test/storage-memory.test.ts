@@ -0,0 +1,6 @@
+// storage.ts first: storage-memory.ts imports from it
+import "../storage";
+import { MemoryStorage } from "../storage-memory";
+import { describeStorageContract } from "./storage-contract";
+
+describeStorageContract("memory", () => new MemoryStorage());